@@ -1,4 +1,12 @@
 /// <reference types="chrome" />
+import { SUMMARIZE_SELECTION_MENU_ID } from './services/selection';
+import { sendPanelCommand, SHORTCUT_COMMANDS } from './services/panel_commands';
+import { hostSummaryJobs } from './services/summary_jobs';
+import { hostUsageLedger } from './services/usage';
+import { OpenAI } from './services/openai';
+import { Anthropic } from './services/anthropic';
+import { Gemini } from './services/gemini';
+import { OpenAICompatibleService } from './services/openai_compatible';
 
 console.log("VibeCapsule background script loaded");
 
@@ -11,5 +19,54 @@ chrome.runtime.onMessage.addListener((message, sender) => {
     }
 });
 
+chrome.runtime.onInstalled.addListener(() => {
+    chrome.contextMenus.create({
+        id: SUMMARIZE_SELECTION_MENU_ID,
+        title: 'Summarize selection with VibeCapsule',
+        contexts: ['selection']
+    });
+});
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+    if (info.menuItemId !== SUMMARIZE_SELECTION_MENU_ID || !tab?.id) return;
+
+    // Must be called right away, while the click still counts as a user gesture
+    chrome.sidePanel.open({ tabId: tab.id, windowId: tab.windowId });
+
+    // Ask the frame itself: it keeps line breaks and sees selections inside text fields
+    chrome.tabs.sendMessage(tab.id, { type: 'GET_SELECTION' }, { frameId: info.frameId ?? 0 })
+        .then((response?: { text?: string }) => response?.text)
+        .catch(() => undefined)
+        .then(text => {
+            const selected = text?.trim() || info.selectionText?.trim();
+            if (!selected) return;
+            return sendPanelCommand({
+                type: 'summarize-selection',
+                selection: { text: selected, url: info.pageUrl || tab.url || '', title: tab.title || '' }
+            });
+        })
+        .catch(e => console.error('Failed to send the selection to the side panel', e));
+});
+
+// Keyboard shortcuts (rebindable in chrome://extensions/shortcuts) open the panel and tell it what to do
+chrome.commands.onCommand.addListener((command, tab) => {
+    const panelCommand = SHORTCUT_COMMANDS[command];
+    if (!panelCommand || !tab?.id) return;
+    chrome.sidePanel.open({ tabId: tab.id, windowId: tab.windowId });
+    sendPanelCommand(panelCommand).catch(e => console.error(`Failed to send the ${command} shortcut to the side panel`, e));
+});
+
+// Every context's usage is recorded here, so concurrent writes from panels and jobs don't clobber each other
+hostUsageLedger();
+
+// Summaries stream here, so they outlive the side panel. Chrome AI isn't available to service
+// workers; the panel runs those jobs itself.
+hostSummaryJobs(request => {
+    // Each job gets its own server, so jobs started with different settings don't share a base URL
+    const compatible = new OpenAICompatibleService();
+    compatible.setBaseUrl(request.compatibleBaseUrl);
+    return { openai: OpenAI, anthropic: Anthropic, gemini: Gemini, compatible };
+});
+
 // Optional: Enable sidepanel on icon click too
 chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true });
@@ -1,12 +1,19 @@
-import { isProbablyReaderable, Readability } from '@mozilla/readability';
+import { isProbablyReaderable } from '@mozilla/readability';
 import { createRoot } from 'react-dom/client';
 
 import FAB from './FAB';
+import { pickElement } from './picker';
+import { extractContent } from '@/services/extraction';
+import { getSelectedText } from '@/services/selection';
+import { fetchVideoTranscript, getYouTubeVideoId, transcriptToText } from '@/services/youtube';
 import './style.css'; // We will create this
 
 console.log("VibeCapsule content script loaded");
 
 function init() {
+    // The script also runs in iframes (for selections), but the button belongs to the page itself
+    if (window !== window.top) return;
+
     // Check if article is reader-able
     const documentClone = document.cloneNode(true) as Document;
     if (isProbablyReaderable(documentClone)) {
@@ -33,15 +40,48 @@ function injectFAB() {
 
 // Listen for extraction requests
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-    if (message.type === 'EXTRACT_CONTENT') {
-        const documentClone = document.cloneNode(true) as Document;
-        if (isProbablyReaderable(documentClone)) {
-            const reader = new Readability(documentClone);
-            const article = reader.parse();
-            sendResponse({ content: article?.textContent, title: article?.title });
-        } else {
-            sendResponse({ error: 'Not reader-able' });
+    // Iframes (ads, embeds, comment widgets) only answer for selections, never with the article
+    if (message.type === 'EXTRACT_CONTENT' && window === window.top) {
+        const videoId = getYouTubeVideoId(location.href);
+        if (videoId) {
+            // Videos are summarized from their transcript
+            fetchVideoTranscript(videoId, navigator.language)
+                .then(video => sendResponse({
+                    content: transcriptToText(video.segments),
+                    title: video.title || document.title,
+                    contentType: 'video',
+                    author: video.channel
+                }))
+                .catch(e => sendResponse({ error: e instanceof Error ? e.message : 'Could not load the transcript' }));
+            return true;
+        }
+
+        // Pages that fail Readability fall back to a guess at the main content, then to all visible text.
+        // `method` skips the stages before it, when the panel asks to retry with the next one;
+        // `rule` holds the selectors of the site rule matching this page.
+        try {
+            sendResponse(extractContent(document, message.method, message.rule));
+        } catch (e) {
+            sendResponse({ error: e instanceof Error ? e.message : 'Failed to extract content' });
+        }
+    }
+    if (message.type === 'PICK_ELEMENT' && window === window.top) {
+        // Writing a site rule in the side panel
+        pickElement().then(selector => sendResponse({ selector }));
+        return true;
+    }
+    if (message.type === 'GET_SELECTION') {
+        // Runs in every frame; the background script asks the frame the menu was opened in
+        sendResponse({ text: getSelectedText(document) });
+    }
+    if (message.type === 'SEEK_VIDEO' && window === window.top) {
+        // Timestamp links in a video's summary
+        const video = document.querySelector<HTMLVideoElement>('video');
+        if (video) {
+            video.currentTime = message.seconds;
+            video.play().catch(() => undefined);
         }
+        sendResponse({ ok: !!video });
     }
 });
 
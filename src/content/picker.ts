@@ -0,0 +1,82 @@
+import { selectorFor } from '@/services/site_rules';
+
+let cancelActive: (() => void) | null = null;
+
+/**
+ * Highlights the element under the pointer and resolves with a selector for the one clicked,
+ * or null when Escape is pressed. Used to write site rules without opening DevTools.
+ */
+export function pickElement(): Promise<string | null> {
+    cancelActive?.();
+
+    return new Promise(resolve => {
+        const highlight = document.createElement('div');
+        highlight.id = 'vibe-capsule-picker';
+        Object.assign(highlight.style, {
+            position: 'fixed',
+            zIndex: '2147483647',
+            pointerEvents: 'none',
+            background: 'rgba(99, 102, 241, 0.15)',
+            outline: '2px solid rgb(99, 102, 241)',
+            borderRadius: '2px',
+            transition: 'all 60ms ease-out'
+        });
+        const label = document.createElement('div');
+        Object.assign(label.style, {
+            position: 'absolute',
+            left: '0',
+            bottom: '100%',
+            maxWidth: '480px',
+            padding: '2px 6px',
+            background: 'rgb(99, 102, 241)',
+            color: 'white',
+            font: '12px/1.4 ui-monospace, monospace',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis'
+        });
+        highlight.appendChild(label);
+        document.documentElement.appendChild(highlight);
+
+        let target: Element | null = null;
+
+        const onMove = (e: MouseEvent) => {
+            const element = document.elementFromPoint(e.clientX, e.clientY);
+            if (!element || element === highlight || element === target) return;
+            target = element;
+            const rect = element.getBoundingClientRect();
+            Object.assign(highlight.style, {
+                top: `${rect.top}px`,
+                left: `${rect.left}px`,
+                width: `${rect.width}px`,
+                height: `${rect.height}px`
+            });
+            label.textContent = selectorFor(element);
+        };
+        // Clicks pick instead of following links or pressing buttons
+        const onClick = (e: MouseEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            finish(target ? selectorFor(target) : null);
+        };
+        const onKey = (e: KeyboardEvent) => {
+            if (e.key !== 'Escape') return;
+            e.preventDefault();
+            finish(null);
+        };
+
+        const finish = (selector: string | null) => {
+            document.removeEventListener('mousemove', onMove, true);
+            document.removeEventListener('click', onClick, true);
+            document.removeEventListener('keydown', onKey, true);
+            highlight.remove();
+            cancelActive = null;
+            resolve(selector);
+        };
+        cancelActive = () => finish(null);
+
+        document.addEventListener('mousemove', onMove, true);
+        document.addEventListener('click', onClick, true);
+        document.addEventListener('keydown', onKey, true);
+    });
+}
@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { type SavedArticle } from '@/services/library';
+import { getAllArticles, subscribeLibrary } from '@/services/library_db';
+
+/**
+ * Live view of the library in IndexedDB. Reloads whenever any extension page writes to it.
+ */
+export function useLibrary() {
+    const [articles, setArticles] = useState<SavedArticle[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const reload = () => {
+            getAllArticles()
+                .then(result => {
+                    if (cancelled) return;
+                    setArticles(result);
+                    setIsLoaded(true);
+                })
+                .catch(e => console.error('Failed to load library', e));
+        };
+
+        reload();
+        const unsubscribe = subscribeLibrary(reload);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, []);
+
+    return { articles, isLoaded };
+}
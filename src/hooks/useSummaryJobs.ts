@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type LLMService } from '@/services/llm';
+import {
+    createJob, pruneJobs, runSummaryJob, SUMMARY_JOBS_PORT,
+    type JobsCommand, type JobsMessage, type SummaryJob, type SummaryJobRequest
+} from '@/services/summary_jobs';
+
+/**
+ * Live view of the summary jobs running in the background service worker, reconnecting when the
+ * worker restarts. Jobs given `localServices` run in the panel instead (Chrome AI, which service
+ * workers can't use) and end when it closes.
+ */
+export function useSummaryJobs() {
+    const [workerJobs, setWorkerJobs] = useState<Record<string, SummaryJob>>({});
+    // Jobs run in the panel, capped like the worker's saved jobs
+    const [localJobs, setLocalJobs] = useState<Record<string, SummaryJob>>({});
+    const [isLoaded, setIsLoaded] = useState(false);
+    const portRef = useRef<chrome.runtime.Port | null>(null);
+    // Running local jobs, to stop them
+    const localControllers = useRef(new Map<string, AbortController>());
+
+    useEffect(() => {
+        let disposed = false;
+        const connect = () => {
+            const port = chrome.runtime.connect({ name: SUMMARY_JOBS_PORT });
+            port.onMessage.addListener((message: JobsMessage) => {
+                if (message.type === 'snapshot') {
+                    setWorkerJobs(Object.fromEntries(message.jobs.map(job => [job.id, job])));
+                    setIsLoaded(true);
+                } else if (message.type === 'job') {
+                    setWorkerJobs(prev => ({ ...prev, [message.job.id]: message.job }));
+                } else {
+                    setWorkerJobs(prev => prev[message.id] ? { ...prev, [message.id]: { ...prev[message.id], ...message.progress } } : prev);
+                }
+            });
+            port.onDisconnect.addListener(() => {
+                portRef.current = null;
+                // The worker was stopped; connecting again starts it and gets the saved jobs
+                if (!disposed) setTimeout(connect, 500);
+            });
+            portRef.current = port;
+        };
+        connect();
+
+        const local = localControllers.current;
+        return () => {
+            disposed = true;
+            portRef.current?.disconnect();
+            for (const controller of local.values()) controller.abort();
+        };
+    }, []);
+
+    const startJob = useCallback((request: SummaryJobRequest, localServices?: Record<string, LLMService>): string => {
+        const id = crypto.randomUUID();
+
+        if (localServices) {
+            const controller = new AbortController();
+            localControllers.current.set(id, controller);
+            const update = (progress: Partial<SummaryJob>) => setLocalJobs(prev => prev[id] ? { ...prev, [id]: { ...prev[id], ...progress } } : prev);
+            setLocalJobs(prev => Object.fromEntries(pruneJobs([...Object.values(prev), createJob(id, request)]).map(job => [job.id, job])));
+            runSummaryJob(request, localServices, update, controller.signal)
+                .finally(() => localControllers.current.delete(id));
+            return id;
+        }
+
+        setWorkerJobs(prev => ({ ...prev, [id]: createJob(id, request) }));
+
+        const command: JobsCommand = { type: 'start', id, request };
+        if (portRef.current) {
+            portRef.current.postMessage(command);
+        } else {
+            setWorkerJobs(prev => ({ ...prev, [id]: { ...prev[id], status: 'error', error: { message: 'The background worker is not responding. Reopen the panel and try again.' } } }));
+        }
+        return id;
+    }, []);
+
+    const stopJob = useCallback((id: string) => {
+        const local = localControllers.current.get(id);
+        if (local) {
+            local.abort();
+            return;
+        }
+        const command: JobsCommand = { type: 'stop', id };
+        portRef.current?.postMessage(command);
+    }, []);
+
+    const jobs = useMemo(() => ({ ...workerJobs, ...localJobs }), [workerJobs, localJobs]);
+
+    return { jobs, isLoaded, startJob, stopJob };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { dropNavigatedSession, dropSession, type TabSessions } from '@/services/tab_sessions';
+
+export interface ActiveTab {
+    id: number;
+    url: string;
+}
+
+/**
+ * State kept separately for each tab of the panel's window, following the active tab. A tab's
+ * session is dropped when it navigates to another page or closes.
+ */
+export function useTabSessions<T extends { url: string }>(initialSession: T) {
+    const [activeTab, setActiveTab] = useState<ActiveTab | null>(null);
+    const [sessions, setSessions] = useState<TabSessions<T>>({});
+
+    useEffect(() => {
+        // Queried rather than read from the event, which also fires for other windows
+        const refresh = () => chrome.tabs.query({ active: true, currentWindow: true })
+            .then(([tab]) => setActiveTab(tab?.id !== undefined ? { id: tab.id, url: tab.url || '' } : null))
+            .catch(e => console.error('Failed to read the active tab', e));
+        refresh();
+
+        const onUpdated = (tabId: number, changeInfo: { url?: string }) => {
+            const url = changeInfo.url;
+            if (!url) return;
+            setSessions(prev => dropNavigatedSession(prev, tabId, url));
+            setActiveTab(prev => prev?.id === tabId ? { id: tabId, url } : prev);
+        };
+        const onRemoved = (tabId: number) => setSessions(prev => dropSession(prev, tabId));
+
+        chrome.tabs.onActivated.addListener(refresh);
+        chrome.tabs.onUpdated.addListener(onUpdated);
+        chrome.tabs.onRemoved.addListener(onRemoved);
+        return () => {
+            chrome.tabs.onActivated.removeListener(refresh);
+            chrome.tabs.onUpdated.removeListener(onUpdated);
+            chrome.tabs.onRemoved.removeListener(onRemoved);
+        };
+    }, []);
+
+    /**
+     * Updates a tab's session, starting it from `initialSession` if it has none. An update function
+     * returning null leaves the sessions as they are.
+     */
+    const updateSession = useCallback((tabId: number, update: Partial<T> | ((session: T) => Partial<T> | null)) => {
+        setSessions(prev => {
+            const session = prev[tabId] ?? initialSession;
+            const changes = typeof update === 'function' ? update(session) : update;
+            return changes ? { ...prev, [tabId]: { ...session, ...changes } } : prev;
+        });
+    }, [initialSession]);
+
+    const hasSession = useCallback((tabId: number) => tabId in sessions, [sessions]);
+    const session = (activeTab && sessions[activeTab.id]) || initialSession;
+
+    return { activeTab, session, hasSession, updateSession };
+}
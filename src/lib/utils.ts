@@ -4,3 +4,24 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
     return twMerge(clsx(inputs))
 }
+
+
+/**
+ * "2 days ago" style label for an ISO date.
+ */
+export function formatRelativeTime(date: string | Date, now = Date.now()): string {
+    const seconds = Math.round((new Date(date).getTime() - now) / 1000)
+    const units: [Intl.RelativeTimeFormatUnit, number][] = [
+        ['year', 60 * 60 * 24 * 365],
+        ['month', 60 * 60 * 24 * 30],
+        ['week', 60 * 60 * 24 * 7],
+        ['day', 60 * 60 * 24],
+        ['hour', 60 * 60],
+        ['minute', 60],
+    ]
+    const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' })
+    for (const [unit, size] of units) {
+        if (Math.abs(seconds) >= size) return format.format(Math.round(seconds / size), unit)
+    }
+    return 'just now'
+}
@@ -4,61 +4,240 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Settings, Sparkles, AlertCircle, Wand2, RefreshCw, ExternalLink, Bookmark, CheckCircle2, BookOpen, Trash2, Calendar, ArrowRight, Bot, Copy } from "lucide-react"
+import { Settings, Sparkles, AlertCircle, Wand2, RefreshCw, ExternalLink, Bookmark, CheckCircle2, BookOpen, ArrowRight, Bot, Copy, Square, TextSelect, Shuffle, Columns2, ScanText, Newspaper } from "lucide-react"
 import { useState, useEffect, useRef } from "react"
-import ReactMarkdown from 'react-markdown'
+import ReactMarkdown, { type Components } from 'react-markdown'
 import { useStorage } from "@/hooks/useStorage"
+import { useLibrary } from "@/hooks/useLibrary"
+import { useSummaryJobs } from "@/hooks/useSummaryJobs"
+import { useTabSessions } from "@/hooks/useTabSessions"
 import { OpenAI } from "@/services/openai"
 import { Anthropic } from "@/services/anthropic"
 import { Gemini } from "@/services/gemini"
 import { ChromeAI } from "@/services/chrome_ai"
-import { type LLMService } from "@/services/llm"
+import { OpenAICompatible, requestHostPermission } from "@/services/openai_compatible"
+import { type LLMService, type ChatMessage, constructChatSystemPrompt } from "@/services/llm"
+import { clearPreferences, recordPreference, PREFERENCES_KEY, type CompareSide, type PreferenceRecord } from "@/services/compare"
+import { buildFallbackChain, type FallbackEntry } from "@/services/fallback"
+import { describeError, type ErrorHelp } from "@/services/errors"
+import { summarizeChunked, getChunkBudget } from "@/services/chunking"
+import { pickBestModel } from "@/services/models"
+import { buildCacheKey, getCachedSummary, findCachedSummaryByUrl, clearSummaryCache, DEFAULT_CACHE_SETTINGS, type CacheSettings } from "@/services/summary_cache"
+import { STRUCTURED_INSTRUCTIONS, STRUCTURED_PROMPT, type StructuredSummary } from "@/services/structured"
+import { type PendingSelection } from "@/services/selection"
+import { takePanelCommand, PANEL_COMMAND_KEY, type PanelCommand } from "@/services/panel_commands"
+import { buildPageVariables, countWords, BUILT_IN_PRESETS, type PromptPreset, type PromptVariables } from "@/services/prompts"
+import {
+  checkSpendingCap, clearUsageLedger, computeCost, findPrice, formatCost, meteredService, reportUsage, DEFAULT_PRICING,
+  type CapCheck, type MeteredUsage, type ModelPrice, type SpendingCap, type UsageLedger
+} from "@/services/usage"
+import { formatRelativeTime } from "@/lib/utils"
+import { type ContentType, type PdfInfo, type SavedArticle } from "@/services/library"
+import { isYouTubeVideo, linkTimestamps, VIDEO_INSTRUCTIONS } from "@/services/youtube"
+import { fetchPdf, isPdfUrl, PDF_INSTRUCTIONS, pdfToText } from "@/services/pdf"
+import { EXTRACTION_LABELS, nextExtractionMethod, type ExtractionMethod, type ExtractionRule } from "@/services/extraction"
+import { findSiteRule, SITE_RULES_KEY, type SiteRule } from "@/services/site_rules"
+import { latestJobForTab, retryMessage } from "@/services/summary_jobs"
+import { isSamePage } from "@/services/tab_sessions"
+import { listDigestTabs, DIGEST_PROMPT, type DigestTab } from "@/services/digest"
+import { deleteArticle, getArticlesByUrl, putArticles, updateArticle, updateArticlesByUrl } from "@/services/library_db"
+import { ChatThread } from "./ChatThread"
+import { CompareView, type ComparedPage } from "./CompareView"
+import { DigestView, type DigestPage } from "./DigestView"
+import { FallbackChainEditor } from "./FallbackChainEditor"
+import { SiteRulesEditor } from "./SiteRulesEditor"
+import { LibraryView } from "./LibraryView"
+import { PromptPresetEditor } from "./PromptPresetEditor"
+import { StructuredSummaryView } from "./StructuredSummaryView"
+import { UsageDashboard } from "./UsageDashboard"
 
 const SERVICES: Record<string, LLMService> = {
   openai: OpenAI,
   anthropic: Anthropic,
   gemini: Gemini,
-  chrome: ChromeAI
+  chrome: ChromeAI,
+  compatible: OpenAICompatible
 };
 
+const PROVIDER_NAMES: Record<string, string> = {
+  chrome: 'Chrome AI',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  gemini: 'Gemini',
+  compatible: 'OpenAI-Compatible'
+};
+
+const DEFAULT_PRESET = '__default__';
+
 const DEFAULT_MODELS: Record<string, string[]> = {
   openai: ['gpt-4o-mini', 'gpt-4o'],
   anthropic: ['claude-3-5-sonnet-20240620'],
   gemini: ['gemini-1.5-pro'],
-  chrome: ['gemini-nano']
+  chrome: ['gemini-nano'],
+  compatible: []
 };
 
-interface SavedArticle {
-  id: string;
-  title: string;
+const defaultPrompt = (lang: string) =>
+  `Analyze the following ${lang} text. Generate a clear, translated title in ${lang} starting with '# ', followed by a concise summary in ${lang}.`;
+
+// Summaries start with a "# Title" line; fall back to the page title without one
+const titleFromSummary = (summary: string, fallback: string) => summary.match(/^#\s+(.*?)(\n|$)/)?.[1]?.trim() || fallback;
+
+interface ExtractedPage {
+  content: string;
+  title?: string;
+  contentType?: ContentType;
+  author?: string;
+  pdf?: PdfInfo;
+  /** How the content script found the text of a web page. */
+  method?: ExtractionMethod;
+}
+
+/** What the panel shows for one tab: its summary or summarize error, and the chat about it. */
+interface TabSession {
+  /** The tab's URL when the session started; navigating elsewhere drops the session. */
   url: string;
-  savedAt: string;
-  summary?: string;
+  status: 'idle' | 'loading' | 'error';
+  error: ErrorHelp | null;
+  // The background job of the summary; while set, the summary and its progress come from it
+  jobId: string | null;
+  // A summary served from the cache, with when it was made
+  summary: string;
+  structured: StructuredSummary | null;
+  cachedAt: string | null;
+  // Set while the summary is of a context-menu selection rather than the whole page
+  selection: PendingSelection | null;
+  // Set when the monthly cap is reached in "warn" mode, until the user confirms or cancels
+  capWarning: { check: CapCheck; regenerate: boolean; selection?: PendingSelection; method?: ExtractionMethod } | null;
+  // The summarized text, for the follow-up chat and saving
+  articleContent: string;
+  articleSource: Omit<ExtractedPage, 'content' | 'title'>;
+  chatMessages: ChatMessage[];
+  chatStatus: 'idle' | 'streaming';
+  chatError: string;
+}
+
+const EMPTY_SESSION: TabSession = {
+  url: '',
+  status: 'idle',
+  error: null,
+  jobId: null,
+  summary: '',
+  structured: null,
+  cachedAt: null,
+  selection: null,
+  capWarning: null,
+  articleContent: '',
+  articleSource: {},
+  chatMessages: [],
+  chatStatus: 'idle',
+  chatError: ''
+};
+
+async function extractPdf(url: string): Promise<ExtractedPage> {
+  const doc = await fetchPdf(url);
+  const { title, author, ...info } = doc.metadata;
+  return { content: pdfToText(doc), title, contentType: 'pdf', author, pdf: { pageCount: doc.pageCount, ...info } };
+}
+
+// PDFs served without a .pdf path are only recognizable by their content type
+async function isPdfResponse(url: string): Promise<boolean> {
+  if (!/^https?:/.test(url)) return false;
+  const res = await fetch(url, { method: 'HEAD' }).catch(() => null);
+  return !!res?.headers.get('content-type')?.includes('application/pdf');
+}
+
+/**
+ * Readable article text of a tab, via the content script. PDFs open in Chrome's viewer, where
+ * the content script doesn't run, so they are downloaded and parsed here.
+ */
+async function extractPage(tabId: number, url: string, method?: ExtractionMethod, rule?: ExtractionRule): Promise<ExtractedPage> {
+  // A PDF-looking URL can still serve a web page, which the content script reads instead
+  let pdfError: unknown;
+  if (isPdfUrl(url)) {
+    try {
+      return await extractPdf(url);
+    } catch (e) {
+      pdfError = e;
+    }
+  }
+
+  const response = await chrome.tabs.sendMessage(tabId, { type: 'EXTRACT_CONTENT', method, rule }, { frameId: 0 })
+    .catch(async err => {
+      // Translate common connection errors into user-friendly messages
+      if (err.message.includes("Receiving end does not exist") || err.message.includes("Could not establish connection")) {
+        if (pdfError) throw pdfError;
+        if (await isPdfResponse(url)) return extractPdf(url);
+        throw new Error("Extension not active on this page. Please REFRESH the page and try again.");
+      }
+      throw err;
+    });
+
+  if (!response || response.error) {
+    throw new Error(response?.error || 'Failed to extract content (refresh page?)');
+  }
+  return response;
+}
+
+async function seekVideo(seconds: number) {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id) await chrome.tabs.sendMessage(tab.id, { type: 'SEEK_VIDEO', seconds });
 }
 
+// Timestamps in a video's summary (linked by `linkTimestamps`) seek the video instead of navigating
+const VIDEO_MARKDOWN_COMPONENTS: Components = {
+  a: ({ href, children }) => href?.startsWith('#t=') ? (
+    <a
+      href={href}
+      className="font-mono no-underline text-indigo-400 hover:underline"
+      onClick={(e) => {
+        e.preventDefault();
+        seekVideo(Number(href.slice(3))).catch(err => console.error('Failed to seek video', err));
+      }}
+    >
+      {children}
+    </a>
+  ) : <a href={href}>{children}</a>
+};
+
 function App() {
   // Provider Keys
-  const { value: openaiKey, setValue: setOpenaiKey } = useStorage<string>('openai_key', '');
-  const { value: anthropicKey, setValue: setAnthropicKey } = useStorage<string>('anthropic_key', '');
-  const { value: geminiKey, setValue: setGeminiKey } = useStorage<string>('gemini_key', '');
+  const { value: openaiKey, setValue: setOpenaiKey, isLoaded: openaiLoaded } = useStorage<string>('openai_key', '');
+  const { value: anthropicKey, setValue: setAnthropicKey, isLoaded: anthropicLoaded } = useStorage<string>('anthropic_key', '');
+  const { value: geminiKey, setValue: setGeminiKey, isLoaded: geminiLoaded } = useStorage<string>('gemini_key', '');
+  const { value: compatibleKey, setValue: setCompatibleKey } = useStorage<string>('compatible_key', '');
+  const { value: compatibleBaseUrl, setValue: setCompatibleBaseUrl, isLoaded: compatibleLoaded } = useStorage<string>('compatible_base_url', '');
 
   // Settings
-  const { value: selectedProvider, setValue: setProvider } = useStorage<string>('selected_provider', 'openai');
-  const { value: selectedModel, setValue: setModel } = useStorage<string>('selected_model', 'gpt-4o-mini');
+  const { value: selectedProvider, setValue: setProvider, isLoaded: providerLoaded } = useStorage<string>('selected_provider', 'openai');
+  const { value: selectedModel, setValue: setModel, isLoaded: modelLoaded } = useStorage<string>('selected_model', 'gpt-4o-mini');
+  // Only read to migrate the old single custom prompt into a preset
   const { value: customPrompt, setValue: setCustomPrompt } = useStorage<string>('custom_prompt', '');
+  const { value: promptPresets, setValue: setPromptPresets, isLoaded: presetsLoaded } = useStorage<PromptPreset[]>('prompt_presets', BUILT_IN_PRESETS);
+  const { value: activePresetId, setValue: setActivePresetId } = useStorage<string>('active_preset', '');
+  const { value: structuredMode, setValue: setStructuredMode, isLoaded: structuredLoaded } = useStorage<boolean>('structured_mode', false);
+  const { value: fallbackChain, setValue: setFallbackChain } = useStorage<FallbackEntry[]>('fallback_chain', []);
+  const { value: siteRules, setValue: setSiteRules } = useStorage<SiteRule[]>(SITE_RULES_KEY, []);
+  // Enough settings are loaded to start a summary without the user pressing the button
+  const settingsLoaded = openaiLoaded && anthropicLoaded && geminiLoaded && compatibleLoaded && providerLoaded && modelLoaded && presetsLoaded && structuredLoaded;
 
   // Storage
   const { value: cachedModels, setValue: setCachedModels } = useStorage<Record<string, string[]>>('cached_models', {});
-  const { value: savedArticles, setValue: setSavedArticles } = useStorage<SavedArticle[]>('saved_articles', []);
+  const { articles: savedArticles } = useLibrary();
+  const { value: cacheSettings, setValue: setCacheSettings } = useStorage<CacheSettings>('cache_settings', DEFAULT_CACHE_SETTINGS);
+  const { value: usageLedger } = useStorage<UsageLedger>('usage_ledger', {});
+  const { value: comparePreferences } = useStorage<PreferenceRecord[]>(PREFERENCES_KEY, []);
+  const { value: modelPricing, setValue: setModelPricing } = useStorage<Record<string, ModelPrice>>('model_pricing', {});
+  const { value: spendingCaps, setValue: setSpendingCaps } = useStorage<Record<string, SpendingCap>>('spending_caps', {});
 
   // State
-  const [view, setView] = useState<'main' | 'settings' | 'library'>('main');
-  const [status, setStatus] = useState<'idle' | 'loading' | 'streaming' | 'error'>('idle');
+  const [view, setView] = useState<'main' | 'settings' | 'library' | 'compare' | 'digest'>('main');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
-  const [summary, setSummary] = useState('');
+  const [pendingCommand, setPendingCommand] = useState<PanelCommand | null>(null);
+  const [shortcuts, setShortcuts] = useState<chrome.commands.Command[]>([]);
+  // Settings and saving errors; summarize errors belong to the tab's session
   const [errorMsg, setErrorMsg] = useState('');
   const [isFetchingModels, setIsFetchingModels] = useState(false);
-  const [currentTabUrl, setCurrentTabUrl] = useState<string>('');
 
   // Chrome AI State
   const [chromeAIStatus, setChromeAIStatus] = useState<'AVAILABLE' | 'API_MISSING' | 'MODEL_NOT_READY'>('API_MISSING');
@@ -68,29 +247,91 @@ function App() {
   const openaiTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const anthropicTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const geminiTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  const currentKey = selectedProvider === 'openai' ? openaiKey : (selectedProvider === 'anthropic' ? anthropicKey : (selectedProvider === 'gemini' ? geminiKey : 'CHROME_AI'));
-  const currentModels = (cachedModels && cachedModels[selectedProvider]?.length > 0)
-    ? cachedModels[selectedProvider]
-    : DEFAULT_MODELS[selectedProvider];
+  const compatibleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // The panel follows the active tab, each tab with its own summary
+  const { activeTab, session, hasSession, updateSession } = useTabSessions(EMPTY_SESSION);
+  const currentTabUrl = activeTab?.url || '';
+
+  // Summaries stream in the background worker, so they go on in tabs the panel isn't showing
+  const { jobs, isLoaded: jobsLoaded, startJob, stopJob } = useSummaryJobs();
+  const activeJob = session.jobId ? jobs[session.jobId] : undefined;
+  const status: 'idle' | 'loading' | 'streaming' | 'error' = activeJob?.status === 'running' ? 'streaming'
+    : activeJob?.status === 'error' ? 'error' : session.status;
+  const summaryError = session.error || activeJob?.error || null;
+  const summary = activeJob ? activeJob.summary : session.summary;
+  // Parsed summary when it was generated in structured mode; `summary` then holds its Markdown
+  const structured = activeJob ? activeJob.structured || null : session.structured;
+  // The provider and model that wrote the summary, which differ from the selection after a fallback
+  const summarySource = activeJob?.source || null;
+  // Tokens and cost of the summary, across all chunk requests
+  const summaryUsage = activeJob?.usage || null;
+  const chunkProgress = activeJob?.chunkProgress || null;
+  const retryNotice = activeJob?.notice || '';
+  // Stopped jobs keep whatever was streamed so far
+  const isInterrupted = activeJob?.status === 'stopped';
+  const { cachedAt, selection: selectionSource, capWarning, articleContent, articleSource, chatMessages, chatStatus, chatError } = session;
+
+  // Cancel extracting a tab's page for a new summary, and its follow-up chat
+  const abortRefs = useRef(new Map<number, AbortController>());
+  const chatAbortRefs = useRef(new Map<number, AbortController>());
+
+  const keyFor = (provider: string) => provider === 'openai' ? openaiKey : (provider === 'anthropic' ? anthropicKey : (provider === 'gemini' ? geminiKey : (provider === 'compatible' ? compatibleKey : 'CHROME_AI')));
+  const currentKey = keyFor(selectedProvider);
+  // OpenAI-compatible servers only need a URL, the key is optional
+  const isProviderReady = selectedProvider === 'compatible' ? !!compatibleBaseUrl : !!currentKey;
+  const modelsFor = (provider: string) => (cachedModels && cachedModels[provider]?.length > 0)
+    ? cachedModels[provider]
+    : DEFAULT_MODELS[provider];
+  const currentModels = modelsFor(selectedProvider);
+  // Whether a provider other than the selected one is set up, for fallbacks and comparisons
+  const canUseProvider = (provider: string) => {
+    if (provider === 'chrome') return chromeAIStatus === 'AVAILABLE';
+    if (provider === 'compatible') return !!compatibleBaseUrl;
+    return !!keyFor(provider);
+  };
 
   useEffect(() => {
-    // Get current tab URL for "isSaved" check
-    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
-      if (tab?.url) setCurrentTabUrl(tab.url);
-    });
-
     // Check Chrome AI
     checkChromeAI();
+
+    chrome.commands.getAll().then(commands => setShortcuts(commands.filter(c => c.name && c.description)));
   }, []);
 
+  useEffect(() => {
+    // A tab seen for the first time shows its last summary, still running in the background or
+    // finished, or else the cached one, instead of paying for a new one
+    if (!activeTab?.url || !jobsLoaded || hasSession(activeTab.id)) return;
+    const { id, url } = activeTab;
+    const job = latestJobForTab(Object.values(jobs), id);
+    if (job && isSamePage(job.url, url)) {
+      updateSession(id, {
+        url,
+        jobId: job.id,
+        articleContent: job.content,
+        articleSource: job.page,
+        selection: job.page.selection || null
+      });
+      return;
+    }
+
+    updateSession(id, { url });
+    findCachedSummaryByUrl(url, cacheSettings).then(cached => {
+      if (!cached) return;
+      // Unless a summary was started meanwhile
+      updateSession(id, s => s.url === url && s.status === 'idle' && !s.jobId && !s.summary
+        ? { summary: cached.summary, structured: cached.structured || null, cachedAt: cached.createdAt }
+        : null);
+    }).catch(e => console.warn('Failed to read cached summary', e));
+  }, [activeTab, jobsLoaded, jobs, hasSession, updateSession, cacheSettings]);
+
   const checkChromeAI = async () => {
     const status = await ChromeAI.getAvailability();
     setChromeAIStatus(status);
 
     if (status === 'AVAILABLE') {
       // Auto-enable if no other keys are set and provider is not set to a valid one
-      if (!openaiKey && !anthropicKey && !geminiKey && selectedProvider === 'openai') {
+      if (!openaiKey && !anthropicKey && !geminiKey && !compatibleBaseUrl && selectedProvider === 'openai') {
         setProvider('chrome');
         setModel('gemini-nano');
       }
@@ -98,6 +339,41 @@ function App() {
   };
 
   const isArticleSaved = savedArticles.some(a => a.url === currentTabUrl);
+  const isVideoTab = isYouTubeVideo(currentTabUrl);
+  const nextMethod = articleSource.method ? nextExtractionMethod(articleSource.method) : null;
+  const activePreset = promptPresets.find(p => p.id === activePresetId);
+
+  useEffect(() => {
+    // Turn the pre-preset custom prompt into a preset, once
+    if (!presetsLoaded || !customPrompt) return;
+    const preset: PromptPreset = { id: crypto.randomUUID(), name: 'Custom', template: customPrompt };
+    setPromptPresets(prev => [preset, ...prev]);
+    setActivePresetId(preset.id);
+    setCustomPrompt('');
+  }, [presetsLoaded, customPrompt, setPromptPresets, setActivePresetId, setCustomPrompt]);
+
+  useEffect(() => {
+    // Shortcuts and the context menu, whether the panel was opened for them or already open
+    const check = () => takePanelCommand()
+      .then(command => { if (command) setPendingCommand(command); })
+      .catch(e => console.error('Failed to read panel command', e));
+    check();
+
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'session' && changes[PANEL_COMMAND_KEY]?.newValue) check();
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, []);
+
+  const handleSelectPreset = (id: string) => {
+    setActivePresetId(id === DEFAULT_PRESET ? '' : id);
+    const preset = promptPresets.find(p => p.id === id);
+    if (preset?.provider) {
+      setProvider(preset.provider);
+      if (preset.model) setModel(preset.model);
+    }
+  };
 
   useEffect(() => {
     // Ensure selected model is valid for the current provider
@@ -109,18 +385,13 @@ function App() {
   // Reset 'saved' status after a delay
   useEffect(() => {
     if (saveStatus === 'saved') {
-      // Refresh current tab url check
-      chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
-        if (tab?.url) setCurrentTabUrl(tab.url);
-      });
-
       const timer = setTimeout(() => setSaveStatus('idle'), 2000);
       return () => clearTimeout(timer);
     }
   }, [saveStatus]);
 
   const fetchModels = async (provider: string, apiKey: string) => {
-    if (!apiKey) return;
+    if (!apiKey && provider !== 'compatible') return;
     setIsFetchingModels(true);
     try {
       const service = SERVICES[provider];
@@ -139,11 +410,17 @@ function App() {
     }
   };
 
+  // The debounced fetches call the latest fetchModels without re-running when it is recreated
+  const fetchModelsRef = useRef(fetchModels);
+  useEffect(() => {
+    fetchModelsRef.current = fetchModels;
+  });
+
   // Auto-fetch effects with debounce
   useEffect(() => {
     if (openaiTimer.current) clearTimeout(openaiTimer.current);
     if (openaiKey && openaiKey.startsWith('sk-')) {
-      openaiTimer.current = setTimeout(() => fetchModels('openai', openaiKey), 1000);
+      openaiTimer.current = setTimeout(() => fetchModelsRef.current('openai', openaiKey), 1000);
     }
     return () => { if (openaiTimer.current) clearTimeout(openaiTimer.current); };
   }, [openaiKey]);
@@ -151,7 +428,7 @@ function App() {
   useEffect(() => {
     if (anthropicTimer.current) clearTimeout(anthropicTimer.current);
     if (anthropicKey && anthropicKey.startsWith('sk-ant-')) {
-      anthropicTimer.current = setTimeout(() => fetchModels('anthropic', anthropicKey), 1000);
+      anthropicTimer.current = setTimeout(() => fetchModelsRef.current('anthropic', anthropicKey), 1000);
     }
     return () => { if (anthropicTimer.current) clearTimeout(anthropicTimer.current); };
   }, [anthropicKey]);
@@ -159,65 +436,209 @@ function App() {
   useEffect(() => {
     if (geminiTimer.current) clearTimeout(geminiTimer.current);
     if (geminiKey && geminiKey.length > 10) {
-      geminiTimer.current = setTimeout(() => fetchModels('gemini', geminiKey), 1000);
+      geminiTimer.current = setTimeout(() => fetchModelsRef.current('gemini', geminiKey), 1000);
     }
     return () => { if (geminiTimer.current) clearTimeout(geminiTimer.current); };
   }, [geminiKey]);
 
+  useEffect(() => {
+    OpenAICompatible.setBaseUrl(compatibleBaseUrl);
+    if (compatibleTimer.current) clearTimeout(compatibleTimer.current);
+    if (compatibleBaseUrl) {
+      compatibleTimer.current = setTimeout(() => fetchModelsRef.current('compatible', compatibleKey), 1000);
+    }
+    return () => { if (compatibleTimer.current) clearTimeout(compatibleTimer.current); };
+  }, [compatibleBaseUrl, compatibleKey]);
+
+
+  /**
+   * The selected service, with every request's usage priced and recorded in the ledger.
+   */
+  const meterService = (provider: string, model: string, onUsage?: (usage: MeteredUsage, cost: number) => void) => {
+    return meteredService(SERVICES[provider], usage => {
+      const cost = provider === 'chrome' ? 0 : computeCost(usage, findPrice(model, { ...DEFAULT_PRICING, ...modelPricing }));
+      reportUsage(provider, model, usage, cost).catch(e => console.warn('Failed to record usage', e));
+      onUsage?.(usage, cost);
+    });
+  };
 
-  const handleSummarize = async () => {
-    if (!currentKey) {
+  const handleSummarize = async (regenerate = false, selection?: PendingSelection, ignoreCap = false, method?: ExtractionMethod) => {
+    if (!isProviderReady) {
       setView('settings');
       return;
     }
 
-    setStatus('loading');
-    setSummary('');
-    setErrorMsg('');
+    // The summary belongs to the tab it was asked for, whichever tab is active when it arrives
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id === undefined) return;
+    const tabId = tab.id;
+    const tabUrl = tab.url || '';
+    // Unless the tab has navigated away meanwhile, which drops its session
+    const update = (changes: Partial<TabSession>) => updateSession(tabId, s => s.url === tabUrl ? changes : null);
+
+    updateSession(tabId, { url: tabUrl, capWarning: null });
+    const cap = checkSpendingCap(usageLedger, selectedProvider, spendingCaps[selectedProvider]);
+    if (cap.status === 'block') {
+      update({ status: 'error', error: { message: `Monthly cap for ${PROVIDER_NAMES[selectedProvider]} reached (${formatCost(cap.spent)} of ${formatCost(cap.limit)}). Raise it in Settings to continue.` } });
+      return;
+    }
+    if (cap.status === 'warn' && !ignoreCap) {
+      update({ capWarning: { check: cap, regenerate, selection, method } });
+      return;
+    }
+
+    if (activeJob?.status === 'running') stopJob(activeJob.id);
+    chatAbortRefs.current.get(tabId)?.abort();
+    abortRefs.current.get(tabId)?.abort();
+    const controller = new AbortController();
+    abortRefs.current.set(tabId, controller);
+    updateSession(tabId, { ...EMPTY_SESSION, url: tabUrl, status: 'loading', selection: selection || null });
+
     try {
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      if (!tab?.id) throw new Error("No active tab");
-      if (tab.url) setCurrentTabUrl(tab.url);
-
-      const response = await chrome.tabs.sendMessage(tab.id, { type: 'EXTRACT_CONTENT' })
-        .catch(err => {
-          // Translate common connection errors into user-friendly messages
-          if (err.message.includes("Receiving end does not exist") || err.message.includes("Could not establish connection")) {
-            throw new Error("Extension not active on this page. Please REFRESH the page and try again.");
-          }
-          throw err;
-        });
+      const pageUrl = selection?.url || tabUrl;
 
-      if (!response || response.error) {
-        throw new Error(response?.error || 'Failed to extract content (refresh page?)');
-      }
+      // A selection from the context menu is summarized exactly as picked, without Readability
+      const siteRule = selection ? undefined : findSiteRule(siteRules, pageUrl);
+      const page = selection
+        ? { content: selection.text, title: selection.title }
+        : await extractPage(tabId, tabUrl, method, siteRule);
 
-      setStatus('streaming');
+      const articleSource = 'contentType' in page ? { contentType: page.contentType, author: page.author, pdf: page.pdf, method: page.method } : {};
+      update({ articleContent: page.content, articleSource });
       const lang = chrome.i18n.getUILanguage();
-      const service = SERVICES[selectedProvider];
 
       // Enforce title in prompt if not custom
-      const effectivePrompt = customPrompt
-        ? customPrompt
-        : `Analyze the following ${lang} text. Generate a clear, translated title in ${lang} starting with '# ', followed by a concise summary in ${lang}.`;
+      const preset = promptPresets.find(p => p.id === siteRule?.presetId) || activePreset;
+      const basePrompt = preset?.template
+        ? preset.template
+        : structuredMode
+          ? STRUCTURED_PROMPT
+          : defaultPrompt(lang);
+      const effectivePrompt = structuredMode
+        ? `${basePrompt}\n${STRUCTURED_INSTRUCTIONS}`
+        : 'contentType' in page && page.contentType === 'video' ? `${basePrompt}\n${VIDEO_INSTRUCTIONS}`
+          : 'contentType' in page && page.contentType === 'pdf' ? `${basePrompt}\n${PDF_INSTRUCTIONS}` : basePrompt;
+
+      const cacheKey = await buildCacheKey({
+        url: pageUrl,
+        content: page.content,
+        provider: selectedProvider,
+        model: selectedModel,
+        prompt: `${lang}\n${effectivePrompt}`
+      });
 
-      const stream = service.summarize(response.content, {
-        apiKey: currentKey,
+      // Selections are not cached, so they never stand in for the whole page's summary
+      if (!regenerate && !selection) {
+        const cached = await getCachedSummary(cacheKey, cacheSettings);
+        if (cached) {
+          update({ status: 'idle', summary: cached.summary, structured: cached.structured || null, cachedAt: cached.createdAt });
+          return;
+        }
+      }
+
+      // The selected provider first, then the configured fallbacks that have a key and budget left.
+      // Chrome AI only works in pages, so a chain starting with it runs here instead of in the background.
+      const runsLocally = selectedProvider === 'chrome';
+      const chain = buildFallbackChain(
+        { provider: selectedProvider, model: selectedModel },
+        fallbackChain,
+        provider => (runsLocally || provider !== 'chrome')
+          && canUseProvider(provider) && checkSpendingCap(usageLedger, provider, spendingCaps[provider]).status !== 'block'
+      );
+
+      // Stopped while the page was being extracted
+      if (controller.signal.aborted) {
+        update({ status: 'idle' });
+        return;
+      }
+
+      const jobId = startJob({
+        tabId,
+        url: pageUrl,
+        title: page.title || tab.title || '',
+        content: page.content,
+        page: { ...articleSource, selection },
+        chain: chain.map(entry => ({ ...entry, apiKey: keyFor(entry.provider) })),
         language: lang,
+        prompt: effectivePrompt,
+        variables: buildPageVariables({ title: page.title || tab.title, url: pageUrl, content: page.content }),
+        structured: structuredMode,
+        compatibleBaseUrl,
+        pricing: modelPricing,
+        // Selections are not cached, so they never stand in for the whole page's summary
+        cache: pageUrl && !selection ? { key: cacheKey, settings: cacheSettings } : undefined
+      }, runsLocally ? SERVICES : undefined);
+      update({ status: 'idle', jobId });
+    } catch (e) {
+      if (controller.signal.aborted) {
+        update({ status: 'idle' });
+        return;
+      }
+      console.error(e);
+      update({ status: 'error', error: describeError(e) });
+    } finally {
+      if (abortRefs.current.get(tabId) === controller) abortRefs.current.delete(tabId);
+    }
+  };
+
+  const handleStop = () => {
+    if (activeTab) abortRefs.current.get(activeTab.id)?.abort();
+    if (activeJob?.status === 'running') stopJob(activeJob.id);
+  };
+
+  const handleChat = async (question: string) => {
+    if (!SERVICES[selectedProvider] || !articleContent || !activeTab) return;
+    const tabId = activeTab.id;
+    const { url } = session;
+    // The chat goes on in its tab's session when another tab is shown
+    const update = (changes: Partial<TabSession>) => updateSession(tabId, s => s.url === url ? changes : null);
+
+    if (checkSpendingCap(usageLedger, selectedProvider, spendingCaps[selectedProvider]).status === 'block') {
+      update({ chatError: `Monthly cap for ${PROVIDER_NAMES[selectedProvider]} reached.` });
+      return;
+    }
+    const service = meterService(selectedProvider, selectedModel);
+
+    const history: ChatMessage[] = [...chatMessages, { role: 'user', content: question }];
+    update({ chatMessages: [...history, { role: 'assistant', content: '' }], chatStatus: 'streaming', chatError: '' });
+
+    const controller = new AbortController();
+    chatAbortRefs.current.set(tabId, controller);
+
+    // Keep the article within the model's window, next to the summary
+    const lang = chrome.i18n.getUILanguage();
+    const article = articleContent.slice(0, getChunkBudget(service, selectedModel, summary) * 4);
+
+    let reply = '';
+    try {
+      const stream = service.chat(history, {
+        apiKey: currentKey,
         model: selectedModel,
-        customPrompt: effectivePrompt
+        system: constructChatSystemPrompt(article, summary, lang),
+        onRetry: (error, delayMs, attempt) => update({ chatError: retryMessage(error, delayMs, attempt) }),
+        signal: controller.signal
       });
 
       for await (const chunk of stream) {
-        setSummary(prev => prev + chunk);
+        reply += chunk;
+        update({ chatMessages: [...history, { role: 'assistant', content: reply }], chatError: '' });
       }
-      setStatus('idle');
-
-    } catch (e: any) {
-      console.error(e);
-      setStatus('error');
-      setErrorMsg(e.message || 'Unknown error');
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error(e);
+        const help = describeError(e);
+        update({ chatError: help.fix ? `${help.message} ${help.fix}` : help.message });
+      }
+    } finally {
+      if (chatAbortRefs.current.get(tabId) === controller) chatAbortRefs.current.delete(tabId);
     }
+
+    // Drop the unanswered question if nothing came back
+    const conversation: ChatMessage[] = reply ? [...history, { role: 'assistant', content: reply }] : chatMessages;
+    update({ chatMessages: conversation, chatStatus: 'idle' });
+
+    // Keep the saved copy of this page in sync with the conversation
+    updateArticlesByUrl(selectionSource?.url || url, { conversation }).catch(e => console.error('Failed to save conversation', e));
   };
 
   const handleSaveToLibrary = async () => {
@@ -230,86 +651,201 @@ function App() {
         throw new Error("Cannot save: missing tab info");
       }
 
-      let titleToSave = tab.title;
-      if (summary) {
-        const titleMatch = summary.match(/^#\s+(.*?)(\n|$)/);
-        if (titleMatch && titleMatch[1]) {
-          titleToSave = titleMatch[1].trim();
-        }
-      }
+      // Fall back to the last cached summary of this page
+      const cached = summary ? null : await findCachedSummaryByUrl(tab.url, cacheSettings);
+      const summaryToSave = summary || cached?.summary || '';
+      const structuredToSave = (summary ? structured : cached?.structured) || undefined;
+
+      const titleToSave = structuredToSave ? structuredToSave.title : titleFromSummary(summaryToSave, tab.title);
 
       const newArticle: SavedArticle = {
         id: crypto.randomUUID(),
         title: titleToSave,
         url: tab.url,
         savedAt: new Date().toISOString(),
-        summary: summary || undefined
+        summary: summaryToSave || undefined,
+        structured: structuredToSave,
+        ...(isYouTubeVideo(tab.url) ? { contentType: 'video', author: articleSource.author || undefined } : {}),
+        ...(articleSource.contentType === 'pdf' ? { contentType: 'pdf', author: articleSource.author || undefined, pdf: articleSource.pdf } : {}),
+        conversation: chatMessages.length > 0 ? chatMessages : undefined
       };
 
-      const exists = savedArticles.some(a => a.url === newArticle.url);
-      if (exists) {
+      const existing = await getArticlesByUrl(newArticle.url);
+      if (existing.length > 0) {
         setSaveStatus('saved');
         return;
       }
 
-      setSavedArticles(prev => [newArticle, ...prev]);
+      await putArticles([newArticle]);
       setSaveStatus('saved');
 
-    } catch (e: any) {
+    } catch (e: unknown) {
       console.error(e);
       setSaveStatus('idle');
-      setErrorMsg('Failed to save link');
+      setErrorMsg(`Failed to save link: ${describeError(e).message}`);
     }
   };
 
-  const handleDeleteArticle = (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    setSavedArticles(prev => prev.filter(a => a.id !== id));
+  // Commands run the latest handlers without re-running when those are recreated on render
+  const commandHandlers = useRef({ handleSummarize, handleSaveToLibrary });
+  useEffect(() => {
+    commandHandlers.current = { handleSummarize, handleSaveToLibrary };
+  });
+
+  useEffect(() => {
+    // Wait for keys and provider so commands run with the user's settings
+    if (!pendingCommand || !settingsLoaded) return;
+    setPendingCommand(null);
+    switch (pendingCommand.type) {
+      case 'summarize':
+        setView('main');
+        commandHandlers.current.handleSummarize();
+        break;
+      case 'summarize-selection':
+        setView('main');
+        commandHandlers.current.handleSummarize(false, pendingCommand.selection);
+        break;
+      case 'save':
+        setView('main');
+        commandHandlers.current.handleSaveToLibrary();
+        break;
+      case 'open-library':
+        setView('library');
+        break;
+    }
+  }, [pendingCommand, settingsLoaded]);
+
+  const extractComparedPage = async (): Promise<ComparedPage> => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) throw new Error("No active tab");
+    const page = await extractPage(tab.id, tab.url || '', undefined, findSiteRule(siteRules, tab.url || ''));
+    return { content: page.content, title: page.title || tab.title || '', url: tab.url || '' };
   };
 
-  const openLink = (url: string) => {
-    chrome.tabs.create({ url });
+  const pickElementInTab = async (): Promise<string | null> => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) throw new Error("No active tab");
+    const response = await chrome.tabs.sendMessage(tab.id, { type: 'PICK_ELEMENT' })
+      .catch(err => {
+        if (err.message.includes("Receiving end does not exist") || err.message.includes("Could not establish connection")) {
+          throw new Error("Extension not active on this page. Please REFRESH the page and try again.");
+        }
+        throw err;
+      });
+    return response?.selector ?? null;
   };
 
-  const [verifyingProvider, setVerifyingProvider] = useState<string | null>(null);
-  const [verifiedProvider, setVerifiedProvider] = useState<string | null>(null);
+  const summarizeForComparison = (side: CompareSide, page: ComparedPage, signal: AbortSignal, onUsage: (usage: MeteredUsage) => void) => {
+    if (checkSpendingCap(usageLedger, side.provider, spendingCaps[side.provider]).status === 'block') {
+      throw new Error(`Monthly cap for ${PROVIDER_NAMES[side.provider]} reached.`);
+    }
+    const lang = chrome.i18n.getUILanguage();
+    const preset = promptPresets.find(p => p.id === side.presetId);
+    return summarizeChunked(meterService(side.provider, side.model, onUsage), page.content, {
+      apiKey: keyFor(side.provider),
+      language: lang,
+      model: side.model,
+      customPrompt: preset?.template || defaultPrompt(lang),
+      variables: buildPageVariables(page),
+      signal
+    });
+  };
 
-  const pickBestModel = (models: string[], provider: string): string => {
-    if (!models || models.length === 0) return '';
-    if (provider === 'chrome') return 'gemini-nano';
+  const saveComparisonWinner = async (winner: string, page: ComparedPage) => {
+    const existing = await getArticlesByUrl(page.url);
+    // The chosen summary replaces the one saved before
+    if (existing.length > 0) {
+      await updateArticlesByUrl(page.url, { summary: winner, structured: undefined });
+      return;
+    }
+    await putArticles([{
+      id: crypto.randomUUID(),
+      title: titleFromSummary(winner, page.title),
+      url: page.url,
+      savedAt: new Date().toISOString(),
+      summary: winner
+    }]);
+  };
 
-    // Low cost / text-first preferences
-    const preferences: Record<string, string[]> = {
-      'openai': ['gpt-4o-mini', 'gpt-3.5-turbo'],
-      'anthropic': ['claude-3-haiku-20240307', 'claude-3-5-haiku-20241022'],
-      'gemini': ['gemini-1.5-flash', 'gemini-1.5-flash-latest', 'gemini-1.5-flash-001']
-    };
+  const extractDigestTab = async (tab: DigestTab): Promise<DigestPage> => {
+    const page = await extractPage(tab.tabId, tab.url, undefined, findSiteRule(siteRules, tab.url));
+    const source = page.contentType === 'video' || page.contentType === 'pdf'
+      ? { contentType: page.contentType, author: page.author || undefined, pdf: page.pdf }
+      : undefined;
+    return { content: page.content, title: page.title || tab.title, url: tab.url, source };
+  };
 
-    const preferredList = preferences[provider] || [];
+  // Digests use the selected provider, model and prompt for every tab, then once more for the whole set
+  const summarizeForDigest = (content: string, customPrompt: string, variables: PromptVariables, signal: AbortSignal) => {
+    if (checkSpendingCap(usageLedger, selectedProvider, spendingCaps[selectedProvider]).status === 'block') {
+      throw new Error(`Monthly cap for ${PROVIDER_NAMES[selectedProvider]} reached.`);
+    }
+    return summarizeChunked(meterService(selectedProvider, selectedModel), content, {
+      apiKey: currentKey,
+      language: chrome.i18n.getUILanguage(),
+      model: selectedModel,
+      customPrompt,
+      variables,
+      signal
+    });
+  };
+
+  const summarizeDigestTab = (page: DigestPage, signal: AbortSignal) => {
+    const basePrompt = activePreset?.template || defaultPrompt(chrome.i18n.getUILanguage());
+    const prompt = page.source?.contentType === 'video' ? `${basePrompt}\n${VIDEO_INSTRUCTIONS}`
+      : page.source?.contentType === 'pdf' ? `${basePrompt}\n${PDF_INSTRUCTIONS}` : basePrompt;
+    return summarizeForDigest(page.content, prompt, buildPageVariables(page), signal);
+  };
 
-    // 1. Try to find a preferred model
-    for (const pref of preferredList) {
-      if (models.includes(pref)) return pref;
+  const saveDigestArticles = async (articles: { page: DigestPage; summary: string }[]): Promise<number> => {
+    const fresh: SavedArticle[] = [];
+    for (const { page, summary } of articles) {
+      // Articles already in the library keep their summary and notes
+      if ((await getArticlesByUrl(page.url)).length > 0 || fresh.some(a => a.url === page.url)) continue;
+      fresh.push({
+        id: crypto.randomUUID(),
+        title: titleFromSummary(summary, page.title),
+        url: page.url,
+        savedAt: new Date().toISOString(),
+        summary,
+        ...page.source
+      });
     }
+    await putArticles(fresh);
+    return fresh.length;
+  };
 
-    // 2. Fallback: Filter out "vision", "embed", "exp" if possible. 
-    // Actually, explicit logic is better. If we can't find preferred, pick the first one that looks like a standard model.
-    // Simpler heuristic: Prefer models containing 'flash', 'mini', 'haiku', 'turbo'.
-    const goodKeywords = ['flash', 'mini', 'haiku', 'turbo'];
-    const candidates = models.filter(m => goodKeywords.some(k => m.includes(k)));
-    if (candidates.length > 0) return candidates[0];
+  const handleDeleteArticle = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    deleteArticle(id).catch(err => console.error('Failed to delete article', err));
+  };
 
-    // 3. Absolute fallback
-    return models[0];
+  const handleUpdateTags = (id: string, tags: string[]) => {
+    updateArticle(id, { tags }).catch(e => console.error('Failed to update tags', e));
   };
 
+  const openLink = (url: string) => {
+    chrome.tabs.create({ url });
+  };
+
+  const [verifyingProvider, setVerifyingProvider] = useState<string | null>(null);
+  const [verifiedProvider, setVerifiedProvider] = useState<string | null>(null);
+
   const handleVerifyKey = async (provider: string, apiKey: string) => {
-    if (!apiKey) return;
+    if (!apiKey && provider !== 'compatible') return;
     setVerifyingProvider(provider);
     setVerifiedProvider(null);
     try {
       const service = SERVICES[provider];
       if (!service) throw new Error("Unknown provider");
+
+      if (provider === 'compatible') {
+        // Ask for access to the server's origin while we still have the click gesture
+        OpenAICompatible.setBaseUrl(compatibleBaseUrl);
+        const granted = await requestHostPermission(compatibleBaseUrl);
+        if (!granted) throw new Error("Permission to access the server was denied.");
+      }
+
       const models = await service.getModels(apiKey);
 
       if (models && models.length > 0) {
@@ -563,6 +1099,48 @@ function App() {
             </CardContent>
           </Card>
 
+          {/* OpenAI-Compatible (Ollama, LM Studio, vLLM, OpenRouter) */}
+          <Card className={isVerified('compatible') ? 'border-green-500 bg-green-500/5 transition-all' : ''}>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-center">
+                <span>OpenAI-Compatible</span>
+                {isVerified('compatible') && <CheckCircle2 className="h-5 w-5 text-green-500 animate-in zoom-in" />}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <Label htmlFor="compatible_base_url">Server URL</Label>
+                <Input
+                  id="compatible_base_url"
+                  placeholder="http://localhost:11434/v1"
+                  value={compatibleBaseUrl}
+                  onChange={(e) => setCompatibleBaseUrl(e.target.value)}
+                />
+                <Label htmlFor="compatible_key">API Key (optional)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="compatible_key"
+                    type="password"
+                    placeholder="Not needed for most local servers"
+                    value={compatibleKey}
+                    onChange={(e) => setCompatibleKey(e.target.value)}
+                  />
+                  <Button
+                    onClick={() => handleVerifyKey('compatible', compatibleKey)}
+                    disabled={!compatibleBaseUrl || isVerifying('compatible')}
+                    className={isVerified('compatible') ? 'bg-green-600 hover:bg-green-700' : ''}
+                  >
+                    {isVerifying('compatible') ? <RefreshCw className="h-4 w-4 animate-spin" /> : 'Check'}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Works with Ollama, LM Studio, vLLM, OpenRouter and other servers exposing <code>/v1/chat/completions</code>.
+                  For Ollama, start the server with <code>OLLAMA_ORIGINS=chrome-extension://*</code>.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Global Settings */}
           <Card>
             <CardHeader>
@@ -571,74 +1149,173 @@ function App() {
             <CardContent>
               <div className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="custom_prompt">Custom System Prompt</Label>
-                  <textarea
-                    id="custom_prompt"
-                    className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                    placeholder="You are a professional content distiller..."
-                    value={customPrompt}
-                    onChange={(e) => setCustomPrompt(e.target.value)}
-                  />
+                  <Label>Prompt Presets</Label>
+                  <PromptPresetEditor presets={promptPresets} onChange={setPromptPresets} providers={PROVIDER_NAMES} />
+                  <p className="text-xs text-muted-foreground">
+                    Pick a preset next to the model selector. "Default" uses the built-in summarization instructions.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="structured_mode"
+                      type="checkbox"
+                      className="h-4 w-4 accent-indigo-600"
+                      checked={structuredMode}
+                      onChange={(e) => setStructuredMode(e.target.checked)}
+                    />
+                    <Label htmlFor="structured_mode">Structured summaries</Label>
+                  </div>
                   <p className="text-xs text-muted-foreground">
-                    Overrides the default summarization instructions. Use {"{{LANGUAGE}}"} placeholder.
+                    Asks the model for a fixed set of fields (title, TL;DR, takeaways, action items, entities, sentiment) and shows them as cards.
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label>Keyboard Shortcuts</Label>
+                  <div className="space-y-1">
+                    {shortcuts.map(command => (
+                      <div key={command.name} className="flex justify-between items-center text-xs gap-2">
+                        <span className="text-muted-foreground">{command.description}</span>
+                        <kbd className="px-1.5 py-0.5 rounded border border-border bg-muted font-mono shrink-0">{command.shortcut || 'Not set'}</kbd>
+                      </div>
+                    ))}
+                  </div>
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => openLink('chrome://extensions/shortcuts')}>
+                    Change shortcuts
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Summary Cache</Label>
+                  <div className="flex gap-2">
+                    <div className="flex-1 space-y-1">
+                      <Label htmlFor="cache_max_entries" className="text-xs text-muted-foreground">Max entries</Label>
+                      <Input
+                        id="cache_max_entries"
+                        type="number"
+                        min={0}
+                        value={cacheSettings.maxEntries}
+                        onChange={(e) => setCacheSettings(prev => ({ ...prev, maxEntries: Math.max(0, Number(e.target.value) || 0) }))}
+                      />
+                    </div>
+                    <div className="flex-1 space-y-1">
+                      <Label htmlFor="cache_ttl_days" className="text-xs text-muted-foreground">Expire after (days)</Label>
+                      <Input
+                        id="cache_ttl_days"
+                        type="number"
+                        min={0}
+                        value={cacheSettings.ttlDays}
+                        onChange={(e) => setCacheSettings(prev => ({ ...prev, ttlDays: Math.max(0, Number(e.target.value) || 0) }))}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <p className="text-xs text-muted-foreground">
+                      Summaries are reused for the same page, model and prompt. 0 days never expires.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={() => clearSummaryCache()}>Clear</Button>
+                  </div>
+                </div>
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Site Rules</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SiteRulesEditor
+                rules={siteRules}
+                onChange={setSiteRules}
+                presets={promptPresets}
+                currentUrl={currentTabUrl}
+                onPick={pickElementInTab}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Fallback Providers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FallbackChainEditor
+                chain={fallbackChain}
+                onChange={setFallbackChain}
+                providers={PROVIDER_NAMES}
+                modelsFor={modelsFor}
+                defaultModel={provider => pickBestModel(modelsFor(provider), provider)}
+                isReady={canUseProvider}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Usage & Costs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageDashboard
+                ledger={usageLedger}
+                pricing={modelPricing}
+                onPricingChange={setModelPricing}
+                caps={spendingCaps}
+                onCapsChange={setSpendingCaps}
+                onClear={() => clearUsageLedger().catch(e => console.warn('Failed to reset usage', e))}
+                providers={PROVIDER_NAMES}
+              />
+            </CardContent>
+          </Card>
         </div>
       </div>
     );
   }
 
-  if (view === 'library') {
+  if (view === 'compare') {
     return (
-      <div className="w-full h-screen bg-background text-foreground flex flex-col">
-        <header className="flex justify-between items-center p-4 border-b border-border/40 shrink-0">
-          <div className="flex items-center gap-2">
-            <BookOpen className="h-5 w-5 text-indigo-500" />
-            <h1 className="text-lg font-bold">Library</h1>
-          </div>
-          <Button variant="ghost" onClick={() => setView('main')}>Close</Button>
-        </header>
+      <CompareView
+        providers={PROVIDER_NAMES}
+        modelsFor={modelsFor}
+        isReady={canUseProvider}
+        presets={promptPresets}
+        initialSide={{ provider: selectedProvider, model: selectedModel, presetId: activePresetId }}
+        preferences={comparePreferences}
+        extractPage={extractComparedPage}
+        summarize={summarizeForComparison}
+        onRecordPreference={(record) => recordPreference(record).catch(e => console.error('Failed to record preference', e))}
+        onClearPreferences={() => clearPreferences()}
+        onSave={saveComparisonWinner}
+        onClose={() => setView('main')}
+      />
+    );
+  }
 
-        <ScrollArea className="flex-1 p-4">
-          {savedArticles.length === 0 ? (
-            <div className="flex flex-col items-center justify-center h-40 text-center space-y-4 mt-10 text-muted-foreground">
-              <BookOpen className="h-10 w-10 opacity-20" />
-              <p>No articles saved yet.</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {savedArticles.map(article => (
-                <Card
-                  key={article.id}
-                  className="cursor-pointer hover:bg-muted/50 transition-colors group"
-                  onClick={() => openLink(article.url)}
-                >
-                  <CardContent className="p-4 flex gap-3 items-start">
-                    <div className="flex-1 space-y-1">
-                      <h3 className="font-medium text-sm leading-snug line-clamp-2">{article.title}</h3>
-                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                        <Calendar className="h-3 w-3" />
-                        <span>{new Date(article.savedAt).toLocaleDateString()}</span>
-                      </div>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6 text-muted-foreground hover:text-destructive shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                      onClick={(e) => handleDeleteArticle(article.id, e)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          )}
-        </ScrollArea>
-      </div>
+  if (view === 'digest') {
+    return (
+      <DigestView
+        listTabs={listDigestTabs}
+        extractTab={extractDigestTab}
+        summarize={summarizeDigestTab}
+        summarizeDigest={(input, signal) => summarizeForDigest(input, DIGEST_PROMPT, {}, signal)}
+        onSaveAll={saveDigestArticles}
+        onClose={() => setView('main')}
+      />
+    );
+  }
+
+  if (view === 'library') {
+    return (
+      <LibraryView
+        articles={savedArticles}
+        onClose={() => setView('main')}
+        onOpen={openLink}
+        onDelete={handleDeleteArticle}
+        onUpdateTags={handleUpdateTags}
+        onImport={(articles) => putArticles(articles)}
+      />
     );
   }
 
@@ -668,6 +1345,12 @@ function App() {
               <Bookmark className="h-5 w-5" />
             )}
           </Button>
+          <Button variant="ghost" size="icon" onClick={() => setView('compare')} title="Compare models">
+            <Columns2 className="h-5 w-5" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => setView('digest')} title="Digest of all tabs">
+            <Newspaper className="h-5 w-5" />
+          </Button>
           <Button variant="ghost" size="icon" onClick={() => setView('library')} title="Open Library">
             <BookOpen className="h-5 w-5" />
           </Button>
@@ -695,6 +1378,7 @@ function App() {
             <SelectItem value="openai">OpenAI</SelectItem>
             <SelectItem value="anthropic">Anthropic</SelectItem>
             <SelectItem value="gemini">Gemini</SelectItem>
+            <SelectItem value="compatible">OpenAI-Compatible</SelectItem>
           </SelectContent>
         </Select>
 
@@ -702,7 +1386,7 @@ function App() {
           <div className="flex flex-1 items-center justify-center text-xs text-muted-foreground italic border rounded px-2 h-8 bg-muted/20">
             Built-in (Free)
           </div>
-        ) : currentKey ? (
+        ) : isProviderReady ? (
           <div className="flex flex-1 gap-1">
             <Select value={selectedModel} onValueChange={setModel}>
               <SelectTrigger className="flex-1 h-8 text-xs">
@@ -718,8 +1402,8 @@ function App() {
               variant="ghost"
               size="icon"
               className="h-8 w-8 shrink-0"
-              onClick={() => currentKey && fetchModels(selectedProvider, currentKey)}
-              disabled={!currentKey || isFetchingModels}
+              onClick={() => isProviderReady && fetchModels(selectedProvider, currentKey)}
+              disabled={!isProviderReady || isFetchingModels}
               title="Refresh Models"
             >
               <RefreshCw className={`h-3 w-3 ${isFetchingModels ? 'animate-spin' : ''}`} />
@@ -730,6 +1414,16 @@ function App() {
             Enter API Key
           </div>
         )}
+
+        <Select value={activePreset?.id || DEFAULT_PRESET} onValueChange={handleSelectPreset}>
+          <SelectTrigger className="w-[110px] h-8 text-xs" title="Prompt preset">
+            <SelectValue placeholder="Prompt" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_PRESET}>Default</SelectItem>
+            {promptPresets.map(p => <SelectItem key={p.id} value={p.id}>{p.name || 'Untitled'}</SelectItem>)}
+          </SelectContent>
+        </Select>
       </div>
 
       <ScrollArea className="flex-1 p-4">
@@ -741,7 +1435,7 @@ function App() {
               <p className="text-sm text-muted-foreground w-3/4">
                 Navigate to an article and click Summarize.
               </p>
-              {!currentKey && (
+              {!isProviderReady && (
                 <Button variant="outline" size="sm" onClick={() => setView('settings')}>
                   Set API Key
                 </Button>
@@ -782,23 +1476,123 @@ function App() {
         {status === 'error' && (
           <div className="p-4 rounded-lg bg-destructive/10 text-destructive flex gap-2 items-start text-sm">
             <AlertCircle className="h-5 w-5 mt-0.5 shrink-0" />
-            <p>{errorMsg}</p>
+            <div className="space-y-2">
+              <p>{summaryError?.message}</p>
+              {summaryError?.fix && <p className="text-xs opacity-80">{summaryError.fix}</p>}
+              {summaryError?.openSettings && (
+                <Button variant="outline" size="sm" onClick={() => setView('settings')}>
+                  <Settings className="mr-1 h-3 w-3" /> Open settings
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {capWarning && (
+          <div className="p-4 rounded-lg bg-orange-500/10 text-orange-500 text-sm space-y-2">
+            <div className="flex gap-2 items-start">
+              <AlertCircle className="h-5 w-5 mt-0.5 shrink-0" />
+              <p>
+                You have spent {formatCost(capWarning.check.spent)} with {PROVIDER_NAMES[selectedProvider]} this month,
+                over your {formatCost(capWarning.check.limit)} cap.
+              </p>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={() => activeTab && updateSession(activeTab.id, { capWarning: null })}>Cancel</Button>
+              <Button variant="outline" size="sm" onClick={() => handleSummarize(capWarning.regenerate, capWarning.selection, true, capWarning.method)}>
+                Summarize anyway
+              </Button>
+            </div>
           </div>
         )}
 
         {(status === 'streaming' || summary) && (
           <div className="pb-8">
-            {selectedProvider === 'chrome' && <div className="text-xs text-muted-foreground mb-2 flex items-center gap-1"><Bot className="h-3 w-3" /> Generated by Chrome Built-in AI</div>}
+            {(summarySource?.provider ?? selectedProvider) === 'chrome' && <div className="text-xs text-muted-foreground mb-2 flex items-center gap-1"><Bot className="h-3 w-3" /> Generated by Chrome Built-in AI</div>}
+            {summarySource && (summarySource.provider !== selectedProvider || summarySource.model !== selectedModel) && (
+              <div className="text-xs text-orange-500 mb-2 flex items-center gap-1">
+                <Shuffle className="h-3 w-3" /> Fallback: written by {PROVIDER_NAMES[summarySource.provider]} ({summarySource.model})
+              </div>
+            )}
+            {selectionSource && (
+              <div className="text-xs text-muted-foreground mb-2 flex items-center gap-1">
+                <TextSelect className="h-3 w-3" /> Summary of the selected text ({countWords(selectionSource.text)} words)
+              </div>
+            )}
+            {articleSource.method && (
+              <div className="text-xs text-muted-foreground mb-2 flex items-center gap-2">
+                <span className="flex items-center gap-1">
+                  <ScanText className="h-3 w-3" /> Extracted with: {EXTRACTION_LABELS[articleSource.method]}
+                </span>
+                {status === 'idle' && nextMethod && (
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => handleSummarize(false, undefined, false, nextMethod)}>
+                    Looks wrong? Try {EXTRACTION_LABELS[nextMethod].toLowerCase()}
+                  </Button>
+                )}
+              </div>
+            )}
+            {cachedAt && status === 'idle' && (
+              <div className="text-xs text-muted-foreground mb-2 flex items-center gap-2">
+                <span className="bg-muted px-2 py-0.5 rounded-full">cached · {formatRelativeTime(cachedAt)}</span>
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => handleSummarize(true)}>
+                  <RefreshCw className="mr-1 h-3 w-3" /> Regenerate
+                </Button>
+              </div>
+            )}
+            {retryNotice && (
+              <div className="text-xs text-orange-500 mb-2 flex items-center gap-1">
+                <RefreshCw className="h-3 w-3 animate-spin" /> {retryNotice}
+              </div>
+            )}
+            {chunkProgress && (
+              <div className="text-xs text-muted-foreground mb-2 flex items-center gap-1">
+                <RefreshCw className="h-3 w-3 animate-spin" />
+                {chunkProgress.phase === 'map'
+                  ? `Long article: summarizing chunk ${chunkProgress.current}/${chunkProgress.total}`
+                  : `Merging partial summaries (${chunkProgress.current}/${chunkProgress.total})`}
+              </div>
+            )}
             <div className="prose prose-sm dark:prose-invert max-w-none 
                   prose-headings:text-indigo-400 prose-headings:font-bold prose-headings:mb-2 prose-headings:mt-4
                   prose-h1:text-xl prose-h1:bg-gradient-to-r prose-h1:from-indigo-400 prose-h1:to-violet-400 prose-h1:bg-clip-text prose-h1:text-transparent prose-h1:border-b prose-h1:border-indigo-500/20 prose-h1:pb-2
                   prose-h2:text-lg prose-h2:text-indigo-300
                   prose-strong:text-indigo-200
                   prose-ul:list-disc prose-ul:pl-4 prose-li:my-0.5">
-              <ReactMarkdown>{summary}</ReactMarkdown>
+              {structured
+                ? <StructuredSummaryView summary={structured} />
+                : isVideoTab
+                  ? <ReactMarkdown components={VIDEO_MARKDOWN_COMPONENTS}>{linkTimestamps(summary)}</ReactMarkdown>
+                  : <ReactMarkdown>{summary}</ReactMarkdown>}
               {status === 'streaming' && <span className="animate-pulse inline-block w-2 h-4 bg-indigo-500 ml-1" />}
             </div>
 
+            {isInterrupted && (
+              <div className="mt-3 text-xs text-orange-500 flex items-center gap-1">
+                <AlertCircle className="h-3 w-3" /> Interrupted. The summary above is incomplete.
+              </div>
+            )}
+
+            {status === 'idle' && summaryUsage && (
+              <div
+                className="mt-3 text-[10px] text-muted-foreground"
+                title={summaryUsage.estimated ? 'Estimated: the provider did not report token usage' : undefined}
+              >
+                {summarySource && `${PROVIDER_NAMES[summarySource.provider]} · ${summarySource.model} · `}
+                {summaryUsage.estimated && '~'}{summaryUsage.inputTokens.toLocaleString()} in · {summaryUsage.outputTokens.toLocaleString()} out tokens
+                {summarySource?.provider !== 'chrome' && ` · ${formatCost(summaryUsage.cost)}`}
+              </div>
+            )}
+
+            {status === 'idle' && summary && articleContent && (
+              <ChatThread
+                messages={chatMessages}
+                isStreaming={chatStatus === 'streaming'}
+                error={chatError}
+                onSend={handleChat}
+                onStop={() => activeTab && chatAbortRefs.current.get(activeTab.id)?.abort()}
+              />
+            )}
+
             {status === 'idle' && summary && (
               <div className="mt-8 pt-6 border-t border-border/40 flex flex-col items-center">
                 {/* UI Feedback Logic:
@@ -862,15 +1656,23 @@ function App() {
         )}
       </ScrollArea>
 
-      <footer className="p-4 border-t border-border/40 bg-muted/20 shrink-0">
+      <footer className="p-4 border-t border-border/40 bg-muted/20 shrink-0 flex gap-2">
         <Button
-          className="w-full bg-indigo-600 hover:bg-indigo-700 text-white shadow-lg transition-all"
-          onClick={handleSummarize}
+          className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white shadow-lg transition-all"
+          onClick={() => handleSummarize()}
           disabled={status === 'loading' || status === 'streaming'}
         >
-          {status === 'loading' ? 'Analyzing...' : status === 'streaming' ? 'Streaming...' : 'Summarize Page'}
+          {status === 'loading' ? 'Analyzing...'
+            : chunkProgress?.phase === 'map' ? `Chunk ${chunkProgress.current}/${chunkProgress.total}...`
+              : chunkProgress ? 'Merging...'
+                : status === 'streaming' ? 'Streaming...' : 'Summarize Page'}
           <Sparkles className="ml-2 h-4 w-4" />
         </Button>
+        {(status === 'loading' || status === 'streaming') && (
+          <Button variant="outline" onClick={handleStop} title="Stop">
+            <Square className="h-4 w-4 fill-current" />
+          </Button>
+        )}
       </footer>
     </div>
   )
@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { AlertCircle, MessageSquare, Send, Square } from "lucide-react"
+import { useState } from "react"
+import ReactMarkdown from 'react-markdown'
+import { type ChatMessage } from "@/services/llm"
+
+interface ChatThreadProps {
+  messages: ChatMessage[];
+  isStreaming: boolean;
+  error?: string;
+  onSend: (question: string) => void;
+  onStop: () => void;
+}
+
+/**
+ * Follow-up questions about the current article, rendered under the summary.
+ */
+export function ChatThread({ messages, isStreaming, error, onSend, onStop }: ChatThreadProps) {
+  const [input, setInput] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = input.trim();
+    if (!question || isStreaming) return;
+    setInput('');
+    onSend(question);
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-border/40 space-y-3">
+      <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+        <MessageSquare className="h-3 w-3" /> Ask about this article
+      </h3>
+
+      {messages.map((m, i) => (
+        <div
+          key={i}
+          className={m.role === 'user'
+            ? "ml-8 rounded-lg bg-indigo-500/10 px-3 py-2 text-sm"
+            : "mr-4 prose prose-sm dark:prose-invert max-w-none prose-ul:list-disc prose-ul:pl-4 prose-li:my-0.5"}
+        >
+          {m.role === 'user' ? m.content : <ReactMarkdown>{m.content}</ReactMarkdown>}
+          {isStreaming && i === messages.length - 1 && m.role === 'assistant' && (
+            <span className="animate-pulse inline-block w-2 h-4 bg-indigo-500 ml-1" />
+          )}
+        </div>
+      ))}
+
+      {error && (
+        <div className="p-2 rounded bg-destructive/10 text-destructive flex gap-2 items-start text-xs">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={submit} className="flex gap-2">
+        <Input
+          placeholder="What does the author say about..."
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          className="h-8 text-sm"
+        />
+        {isStreaming ? (
+          <Button type="button" variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={onStop} title="Stop">
+            <Square className="h-3 w-3 fill-current" />
+          </Button>
+        ) : (
+          <Button type="submit" size="icon" className="h-8 w-8 shrink-0 bg-indigo-600 hover:bg-indigo-700 text-white" disabled={!input.trim()} title="Send">
+            <Send className="h-3 w-3" />
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
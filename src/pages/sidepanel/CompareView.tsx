@@ -0,0 +1,311 @@
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bookmark, CheckCircle2, Columns2, Equal, Sparkles, Square, Trophy } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import ReactMarkdown from 'react-markdown'
+import { describeError } from "@/services/errors"
+import { computeWinStats, sideLabel, type CompareSide, type PreferenceRecord } from "@/services/compare"
+import { type PromptPreset } from "@/services/prompts"
+import { type MeteredUsage } from "@/services/usage"
+
+/** The article both sides summarize. */
+export interface ComparedPage {
+  content: string;
+  title: string;
+  url: string;
+}
+
+interface CompareViewProps {
+  /** Provider id to display name. */
+  providers: Record<string, string>;
+  modelsFor: (provider: string) => string[];
+  isReady: (provider: string) => boolean;
+  presets: PromptPreset[];
+  initialSide: CompareSide;
+  preferences: PreferenceRecord[];
+  extractPage: () => Promise<ComparedPage>;
+  summarize: (side: CompareSide, page: ComparedPage, signal: AbortSignal, onUsage: (usage: MeteredUsage) => void) => AsyncGenerator<string, void, unknown>;
+  onRecordPreference: (record: PreferenceRecord) => void;
+  onClearPreferences: () => void;
+  onSave: (summary: string, page: ComparedPage) => Promise<void>;
+  onClose: () => void;
+}
+
+interface SideResult {
+  text: string;
+  status: 'idle' | 'streaming' | 'done' | 'error';
+  error?: string;
+  /** Time to the first token and to the end of the stream, in ms. */
+  firstTokenMs?: number;
+  totalMs?: number;
+  usage?: { inputTokens: number; outputTokens: number; estimated: boolean };
+}
+
+const EMPTY_RESULT: SideResult = { text: '', status: 'idle' };
+const DEFAULT_PROMPT = '__default__';
+
+const formatMs = (ms?: number) => ms === undefined ? '–' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+function SidePicker({ side, onChange, providers, modelsFor, isReady, presets, disabled }: {
+  side: CompareSide;
+  onChange: (side: CompareSide) => void;
+  providers: Record<string, string>;
+  modelsFor: (provider: string) => string[];
+  isReady: (provider: string) => boolean;
+  presets: PromptPreset[];
+  disabled: boolean;
+}) {
+  return (
+    <div className="space-y-1">
+      <Select
+        value={side.provider}
+        disabled={disabled}
+        onValueChange={(provider: string) => onChange({ ...side, provider, model: modelsFor(provider)[0] || '' })}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(providers).map(([id, name]) => (
+            <SelectItem key={id} value={id} disabled={!isReady(id)}>{name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={side.model} disabled={disabled} onValueChange={(model: string) => onChange({ ...side, model })}>
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue placeholder="Model" />
+        </SelectTrigger>
+        <SelectContent>
+          {[...new Set([side.model, ...modelsFor(side.provider)])].filter(Boolean).map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      <Select
+        value={side.presetId || DEFAULT_PROMPT}
+        disabled={disabled}
+        onValueChange={(id: string) => onChange({ ...side, presetId: id === DEFAULT_PROMPT ? '' : id })}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_PROMPT}>Default prompt</SelectItem>
+          {presets.map(p => <SelectItem key={p.id} value={p.id}>{p.name || 'Untitled'}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function CompareView({
+  providers, modelsFor, isReady, presets, initialSide, preferences, extractPage, summarize, onRecordPreference, onClearPreferences, onSave, onClose
+}: CompareViewProps) {
+  const [sides, setSides] = useState<[CompareSide, CompareSide]>([initialSide, { ...initialSide }]);
+  const [results, setResults] = useState<[SideResult, SideResult]>([EMPTY_RESULT, EMPTY_RESULT]);
+  const [page, setPage] = useState<ComparedPage | null>(null);
+  const [error, setError] = useState('');
+  const [verdict, setVerdict] = useState<0 | 1 | 'tie' | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Nothing keeps streaming into a closed view
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isRunning = results.some(r => r.status === 'streaming');
+  const bothDone = results.every(r => r.status === 'done');
+  const labels = sides.map(side => sideLabel(side, presets.find(p => p.id === side.presetId)?.name));
+  const stats = computeWinStats(preferences);
+
+  const updateResult = (index: 0 | 1, patch: Partial<SideResult> | ((prev: SideResult) => Partial<SideResult>)) => {
+    setResults(prev => {
+      const next: [SideResult, SideResult] = [prev[0], prev[1]];
+      next[index] = { ...prev[index], ...(typeof patch === 'function' ? patch(prev[index]) : patch) };
+      return next;
+    });
+  };
+
+  const runSide = async (index: 0 | 1, target: ComparedPage, signal: AbortSignal) => {
+    const started = performance.now();
+    updateResult(index, { text: '', status: 'streaming', error: undefined, firstTokenMs: undefined, totalMs: undefined, usage: undefined });
+    try {
+      const onUsage = (usage: MeteredUsage) => updateResult(index, prev => ({
+        usage: {
+          inputTokens: (prev.usage?.inputTokens || 0) + usage.inputTokens,
+          outputTokens: (prev.usage?.outputTokens || 0) + usage.outputTokens,
+          estimated: !!prev.usage?.estimated || usage.estimated
+        }
+      }));
+      for await (const chunk of summarize(sides[index], target, signal, onUsage)) {
+        updateResult(index, prev => ({
+          text: prev.text + chunk,
+          firstTokenMs: prev.firstTokenMs ?? performance.now() - started
+        }));
+      }
+      updateResult(index, { status: 'done', totalMs: performance.now() - started });
+    } catch (e) {
+      const help = describeError(e);
+      updateResult(index, {
+        status: 'error',
+        totalMs: performance.now() - started,
+        error: signal.aborted ? 'Stopped.' : help.fix ? `${help.message} ${help.fix}` : help.message
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError('');
+    setVerdict(null);
+    setSaveStatus('idle');
+
+    try {
+      // Extracted once, so both sides see exactly the same text
+      const target = await extractPage();
+      setPage(target);
+      await Promise.all([runSide(0, target, controller.signal), runSide(1, target, controller.signal)]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleVerdict = (choice: 0 | 1 | 'tie') => {
+    if (!page || verdict !== null) return;
+    setVerdict(choice);
+    const winner = choice === 'tie' ? 0 : choice;
+    onRecordPreference({
+      id: crypto.randomUUID(),
+      comparedAt: new Date().toISOString(),
+      url: page.url,
+      winner: labels[winner],
+      loser: labels[1 - winner],
+      tie: choice === 'tie' || undefined
+    });
+  };
+
+  const handleSaveWinner = async () => {
+    if (!page || (verdict !== 0 && verdict !== 1)) return;
+    setSaveStatus('saving');
+    try {
+      await onSave(results[verdict].text, page);
+      setSaveStatus('saved');
+    } catch (e) {
+      console.error(e);
+      setSaveStatus('idle');
+      setError('Failed to save the summary');
+    }
+  };
+
+  return (
+    <div className="w-full h-screen bg-background text-foreground flex flex-col">
+      <header className="flex justify-between items-center p-4 border-b border-border/40 shrink-0">
+        <div className="flex items-center gap-2">
+          <Columns2 className="h-5 w-5 text-indigo-500" />
+          <h1 className="text-lg font-bold">Compare</h1>
+        </div>
+        <Button variant="ghost" onClick={onClose}>Close</Button>
+      </header>
+
+      <div className="p-3 border-b border-border/40 bg-muted/10 shrink-0 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          {sides.map((side, i) => (
+            <SidePicker
+              key={i}
+              side={side}
+              onChange={(next) => setSides(prev => i === 0 ? [next, prev[1]] : [prev[0], next])}
+              providers={providers}
+              modelsFor={modelsFor}
+              isReady={isReady}
+              presets={presets}
+              disabled={isRunning}
+            />
+          ))}
+        </div>
+        {isRunning ? (
+          <Button variant="outline" className="w-full" onClick={() => abortRef.current?.abort()}>
+            <Square className="mr-2 h-4 w-4" /> Stop
+          </Button>
+        ) : (
+          <Button className="w-full" onClick={handleRun} disabled={!sides.every(s => s.model && isReady(s.provider))}>
+            <Sparkles className="mr-2 h-4 w-4" /> Compare on this page
+          </Button>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {results.map((result, i) => (
+            <Card key={i} className={verdict === i ? 'border-green-500 bg-green-500/5' : ''}>
+              <CardContent className="p-2 space-y-2">
+                <div className="text-[10px] text-muted-foreground truncate" title={labels[i]}>{labels[i]}</div>
+                <div className="text-[10px] text-muted-foreground flex flex-wrap gap-x-2">
+                  <span title="Time to first token">first {formatMs(result.firstTokenMs)}</span>
+                  <span title="Total time">total {formatMs(result.totalMs)}</span>
+                  {result.usage && (
+                    <span title={result.usage.estimated ? 'Estimated' : undefined}>
+                      {result.usage.estimated && '~'}{result.usage.inputTokens.toLocaleString()} → {result.usage.outputTokens.toLocaleString()} tok
+                    </span>
+                  )}
+                </div>
+                {result.error && <p className="text-xs text-destructive">{result.error}</p>}
+                <div className="prose prose-sm dark:prose-invert max-w-none text-xs prose-headings:text-sm prose-headings:text-indigo-400">
+                  <ReactMarkdown>{result.text}</ReactMarkdown>
+                  {result.status === 'streaming' && <span className="animate-pulse inline-block w-2 h-3 bg-indigo-500 ml-1" />}
+                </div>
+                {bothDone && verdict === null && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => handleVerdict(i as 0 | 1)}>
+                    <Trophy className="mr-1 h-3 w-3" /> This one
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {bothDone && verdict === null && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => handleVerdict('tie')}>
+            <Equal className="mr-1 h-3 w-3" /> About the same
+          </Button>
+        )}
+        {(verdict === 0 || verdict === 1) && (
+          <Button className="w-full" onClick={handleSaveWinner} disabled={saveStatus !== 'idle'}>
+            {saveStatus === 'saved'
+              ? <><CheckCircle2 className="mr-2 h-4 w-4" /> Saved</>
+              : <><Bookmark className="mr-2 h-4 w-4" /> Save the winner to the library</>}
+          </Button>
+        )}
+
+        {stats.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-border/40">
+            <div className="flex justify-between items-center">
+              <h2 className="text-sm font-semibold">Preferences</h2>
+              <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={onClearPreferences}>Reset</Button>
+            </div>
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-normal">Model / prompt</th>
+                  <th className="text-right font-normal">W / L / T</th>
+                  <th className="text-right font-normal">Win rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map(s => (
+                  <tr key={s.label} className="border-t border-border/40">
+                    <td className="py-1 truncate max-w-[160px]" title={s.label}>{s.label}</td>
+                    <td className="text-right">{s.wins} / {s.losses} / {s.ties}</td>
+                    <td className="text-right">{Math.round(s.winRate * 100)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
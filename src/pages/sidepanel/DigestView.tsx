@@ -0,0 +1,348 @@
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Bookmark, CheckCircle2, Newspaper, RefreshCw, RotateCcw, SkipForward, Sparkles, Square } from "lucide-react"
+import { useCallback, useEffect, useRef, useState } from "react"
+import ReactMarkdown, { type Components } from 'react-markdown'
+import { describeError } from "@/services/errors"
+import { digestInput, focusTab, runWithConcurrency, DIGEST_CONCURRENCY, type DigestItem, type DigestItemStatus, type DigestTab } from "@/services/digest"
+import { type SavedArticle } from "@/services/library"
+import { type ComparedPage } from "./CompareView"
+
+/** The article of one tab, with what the library keeps about videos and PDFs. */
+export interface DigestPage extends ComparedPage {
+  source?: Pick<SavedArticle, 'contentType' | 'author' | 'pdf'>;
+}
+
+interface DigestViewProps {
+  listTabs: () => Promise<DigestTab[]>;
+  extractTab: (tab: DigestTab) => Promise<DigestPage>;
+  summarize: (page: DigestPage, signal: AbortSignal) => AsyncGenerator<string, void, unknown>;
+  /** Writes the combined digest from the numbered summaries. */
+  summarizeDigest: (input: string, signal: AbortSignal) => AsyncGenerator<string, void, unknown>;
+  /** Saves the summarized articles, returning how many were new to the library. */
+  onSaveAll: (articles: { page: DigestPage; summary: string }[]) => Promise<number>;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<DigestItemStatus, string> = {
+  queued: 'Waiting',
+  extracting: 'Reading page…',
+  summarizing: 'Summarizing…',
+  done: 'Done',
+  error: 'Failed',
+  skipped: 'Skipped'
+};
+
+// Links in the digest go back to the tab they came from
+const DIGEST_MARKDOWN_COMPONENTS: Components = {
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      onClick={(e) => {
+        e.preventDefault();
+        if (href) focusTab(href).catch(err => console.error('Failed to open tab', err));
+      }}
+    >
+      {children}
+    </a>
+  )
+};
+
+export function DigestView({ listTabs, extractTab, summarize, summarizeDigest, onSaveAll, onClose }: DigestViewProps) {
+  const [tabs, setTabs] = useState<DigestTab[] | null>(null);
+  const [items, setItems] = useState<DigestItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [digest, setDigest] = useState('');
+  const [digestStatus, setDigestStatus] = useState<'idle' | 'streaming' | 'done' | 'error'>('idle');
+  // Set when a retried tab finished after the digest was written
+  const [isStale, setIsStale] = useState(false);
+  const [error, setError] = useState('');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [savedCount, setSavedCount] = useState(0);
+
+  const runAbort = useRef<AbortController | null>(null);
+  const digestAbort = useRef<AbortController | null>(null);
+  const itemAborts = useRef(new Map<number, AbortController>());
+  // Tabs skipped before their turn came
+  const skipped = useRef(new Set<number>());
+  // Final state of each tab, read when writing the digest
+  const finished = useRef(new Map<number, DigestItem>());
+  const pages = useRef(new Map<number, DigestPage>());
+
+  const loadTabs = useCallback(() => {
+    listTabs().then(setTabs).catch(e => {
+      setTabs([]);
+      setError(e instanceof Error ? e.message : 'Failed to list tabs');
+    });
+  }, [listTabs]);
+
+  useEffect(loadTabs, [loadTabs]);
+
+  // Nothing keeps streaming into a closed view
+  useEffect(() => () => {
+    runAbort.current?.abort();
+    digestAbort.current?.abort();
+    for (const controller of itemAborts.current.values()) controller.abort();
+  }, []);
+
+  const selectedTabs = tabs?.filter(t => t.selected) || [];
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const isBusy = isRunning || items.some(i => i.status === 'extracting' || i.status === 'summarizing');
+
+  const updateItem = (tabId: number, patch: Partial<DigestItem>) => {
+    setItems(prev => prev.map(item => item.tab.tabId === tabId ? { ...item, ...patch } : item));
+  };
+
+  const finish = (item: DigestItem) => {
+    finished.current.set(item.tab.tabId, item);
+    updateItem(item.tab.tabId, item);
+  };
+
+  const runItem = async (tab: DigestTab, runSignal?: AbortSignal) => {
+    if (skipped.current.has(tab.tabId)) return;
+    const controller = new AbortController();
+    itemAborts.current.set(tab.tabId, controller);
+    const signal = runSignal ? AbortSignal.any([runSignal, controller.signal]) : controller.signal;
+
+    let title = tab.title;
+    let summary = '';
+    try {
+      updateItem(tab.tabId, { status: 'extracting', summary: '', error: undefined });
+      const page = await extractTab(tab);
+      signal.throwIfAborted();
+      pages.current.set(tab.tabId, page);
+      title = page.title;
+      updateItem(tab.tabId, { status: 'summarizing', title });
+
+      for await (const chunk of summarize(page, signal)) {
+        summary += chunk;
+        updateItem(tab.tabId, { summary });
+      }
+      finish({ tab, status: 'done', title, summary });
+    } catch (e) {
+      if (signal.aborted) {
+        finish({ tab, status: 'skipped', title, summary });
+      } else {
+        console.error(e);
+        const help = describeError(e);
+        finish({ tab, status: 'error', title, summary, error: help.fix ? `${help.message} ${help.fix}` : help.message });
+      }
+    } finally {
+      if (itemAborts.current.get(tab.tabId) === controller) itemAborts.current.delete(tab.tabId);
+    }
+  };
+
+  const writeDigest = async (order: DigestTab[]) => {
+    const done = order.map(tab => finished.current.get(tab.tabId)).filter((item): item is DigestItem => item?.status === 'done');
+    if (done.length === 0) return;
+
+    digestAbort.current?.abort();
+    const controller = new AbortController();
+    digestAbort.current = controller;
+    setDigest('');
+    setDigestStatus('streaming');
+    setIsStale(false);
+    setError('');
+
+    let text = '';
+    try {
+      for await (const chunk of summarizeDigest(digestInput(done), controller.signal)) {
+        text += chunk;
+        setDigest(text);
+      }
+      setDigestStatus('done');
+    } catch (e) {
+      if (controller.signal.aborted) {
+        setDigestStatus(text ? 'done' : 'idle');
+        return;
+      }
+      console.error(e);
+      const help = describeError(e);
+      setError(help.fix ? `${help.message} ${help.fix}` : help.message);
+      setDigestStatus('error');
+    } finally {
+      if (digestAbort.current === controller) digestAbort.current = null;
+    }
+  };
+
+  const handleRun = async () => {
+    runAbort.current?.abort();
+    digestAbort.current?.abort();
+    const controller = new AbortController();
+    runAbort.current = controller;
+
+    const targets = selectedTabs;
+    skipped.current.clear();
+    finished.current.clear();
+    pages.current.clear();
+    setItems(targets.map(tab => ({ tab, status: 'queued', title: tab.title, summary: '' })));
+    setDigest('');
+    setDigestStatus('idle');
+    setSaveStatus('idle');
+    setError('');
+    setIsRunning(true);
+
+    await runWithConcurrency(targets, DIGEST_CONCURRENCY, tab => runItem(tab, controller.signal), controller.signal);
+
+    // Tabs whose turn never came because of a stop
+    for (const tab of targets) {
+      if (!finished.current.has(tab.tabId)) finish({ tab, status: 'skipped', title: tab.title, summary: '' });
+    }
+    if (runAbort.current !== controller) return;
+    runAbort.current = null;
+    setIsRunning(false);
+    if (!controller.signal.aborted) await writeDigest(targets);
+  };
+
+  const handleStop = () => {
+    runAbort.current?.abort();
+    digestAbort.current?.abort();
+  };
+
+  const handleSkip = (item: DigestItem) => {
+    if (item.status === 'queued') {
+      skipped.current.add(item.tab.tabId);
+      finish({ ...item, status: 'skipped' });
+    } else {
+      itemAborts.current.get(item.tab.tabId)?.abort();
+    }
+  };
+
+  const handleRetry = async (item: DigestItem) => {
+    skipped.current.delete(item.tab.tabId);
+    finished.current.delete(item.tab.tabId);
+    setSaveStatus('idle');
+    await runItem(item.tab);
+    if (digest && finished.current.get(item.tab.tabId)?.status === 'done') setIsStale(true);
+  };
+
+  const handleSaveAll = async () => {
+    const articles = items
+      .filter(item => item.status === 'done' && pages.current.has(item.tab.tabId))
+      .map(item => ({ page: pages.current.get(item.tab.tabId)!, summary: item.summary }));
+    setSaveStatus('saving');
+    try {
+      setSavedCount(await onSaveAll(articles));
+      setSaveStatus('saved');
+    } catch (e) {
+      console.error(e);
+      setSaveStatus('idle');
+      setError('Failed to save the articles');
+    }
+  };
+
+  const toggleTab = (tabId: number, selected: boolean) => {
+    setTabs(prev => prev && prev.map(t => t.tabId === tabId ? { ...t, selected } : t));
+  };
+
+  const canWriteDigest = !isBusy && digestStatus !== 'streaming' && doneCount > 0 && (digestStatus !== 'done' || isStale);
+
+  return (
+    <div className="w-full h-screen bg-background text-foreground flex flex-col">
+      <header className="flex justify-between items-center p-4 border-b border-border/40 shrink-0">
+        <div className="flex items-center gap-2">
+          <Newspaper className="h-5 w-5 text-indigo-500" />
+          <h1 className="text-lg font-bold">Digest</h1>
+        </div>
+        <Button variant="ghost" onClick={onClose}>Close</Button>
+      </header>
+
+      <div className="p-3 border-b border-border/40 bg-muted/10 shrink-0 space-y-2">
+        {items.length === 0 && (
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {tabs === null && <p className="text-xs text-muted-foreground">Loading tabs…</p>}
+            {tabs?.length === 0 && !error && <p className="text-xs text-muted-foreground">No readable tabs in this window.</p>}
+            {tabs?.map(tab => (
+              <label key={tab.tabId} className="flex items-center gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-indigo-600 shrink-0"
+                  checked={tab.selected}
+                  onChange={(e) => toggleTab(tab.tabId, e.target.checked)}
+                />
+                <span className="truncate" title={tab.url}>{tab.title}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        {isBusy || digestStatus === 'streaming' ? (
+          <Button variant="outline" className="w-full" onClick={handleStop}>
+            <Square className="mr-2 h-4 w-4" /> Stop
+          </Button>
+        ) : items.length > 0 ? (
+          <Button variant="outline" className="w-full" onClick={() => { setItems([]); loadTabs(); }}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Pick other tabs
+          </Button>
+        ) : (
+          <Button className="w-full" onClick={handleRun} disabled={selectedTabs.length === 0}>
+            <Sparkles className="mr-2 h-4 w-4" /> Summarize {selectedTabs.length} {selectedTabs.length === 1 ? 'tab' : 'tabs'}
+          </Button>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {items.length > 0 && (
+          <div className="space-y-1">
+            {items.map(item => (
+              <div key={item.tab.tabId} className="text-xs border border-border/40 rounded p-2 space-y-1">
+                <div className="flex items-center gap-2">
+                  <button className="truncate text-left flex-1 hover:underline" title={item.tab.url} onClick={() => focusTab(item.tab.url).catch(e => console.error('Failed to open tab', e))}>
+                    {item.title}
+                  </button>
+                  <span className={item.status === 'error' ? 'text-destructive shrink-0' : 'text-muted-foreground shrink-0'}>
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                  {(item.status === 'queued' || item.status === 'extracting' || item.status === 'summarizing') && (
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Skip" onClick={() => handleSkip(item)}>
+                      <SkipForward className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {(item.status === 'error' || item.status === 'skipped') && (
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Retry" onClick={() => handleRetry(item)}>
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                {item.error && <p className="text-destructive">{item.error}</p>}
+                {item.summary && (
+                  <details>
+                    <summary className="cursor-pointer text-muted-foreground">Summary</summary>
+                    <div className="prose prose-sm dark:prose-invert max-w-none text-xs prose-headings:text-sm prose-headings:text-indigo-400 pt-1">
+                      <ReactMarkdown>{item.summary}</ReactMarkdown>
+                    </div>
+                  </details>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canWriteDigest && (
+          <Button variant="outline" className="w-full" onClick={() => writeDigest(items.map(i => i.tab))}>
+            <Sparkles className="mr-2 h-4 w-4" /> {digest ? 'Rewrite the digest' : 'Write the digest'}
+          </Button>
+        )}
+
+        {(digest || digestStatus === 'streaming') && (
+          <Card>
+            <CardContent className="p-3">
+              <div className="prose prose-sm dark:prose-invert max-w-none prose-headings:text-indigo-400 prose-a:text-indigo-400">
+                <ReactMarkdown components={DIGEST_MARKDOWN_COMPONENTS}>{digest}</ReactMarkdown>
+                {digestStatus === 'streaming' && <span className="animate-pulse inline-block w-2 h-4 bg-indigo-500 ml-1" />}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {doneCount > 0 && !isBusy && (
+          <Button className="w-full" onClick={handleSaveAll} disabled={saveStatus !== 'idle'}>
+            {saveStatus === 'saved'
+              ? <><CheckCircle2 className="mr-2 h-4 w-4" /> {savedCount > 0 ? `Saved ${savedCount} to the library` : 'All already in the library'}</>
+              : <><Bookmark className="mr-2 h-4 w-4" /> Save all {doneCount} to the library</>}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
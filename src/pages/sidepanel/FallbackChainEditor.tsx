@@ -0,0 +1,70 @@
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowDown, ArrowUp, X } from "lucide-react"
+import { type FallbackEntry } from "@/services/fallback"
+
+interface FallbackChainEditorProps {
+  chain: FallbackEntry[];
+  onChange: (chain: FallbackEntry[]) => void;
+  /** Provider id to display name. */
+  providers: Record<string, string>;
+  modelsFor: (provider: string) => string[];
+  defaultModel: (provider: string) => string;
+  isReady: (provider: string) => boolean;
+}
+
+export function FallbackChainEditor({ chain, onChange, providers, modelsFor, defaultModel, isReady }: FallbackChainEditorProps) {
+  const unused = Object.keys(providers).filter(id => !chain.some(e => e.provider === id));
+
+  const move = (index: number, offset: number) => {
+    const next = [...chain];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {chain.length === 0 && (
+        <p className="text-xs text-muted-foreground">No fallbacks. A failing provider ends the summary with an error.</p>
+      )}
+      {chain.map((entry, i) => (
+        <div key={entry.provider} className="flex gap-1 items-center">
+          <span className="text-xs text-muted-foreground w-4">{i + 1}.</span>
+          <span className={`text-xs w-24 truncate ${isReady(entry.provider) ? '' : 'text-muted-foreground line-through'}`} title={isReady(entry.provider) ? undefined : 'Not set up, skipped'}>
+            {providers[entry.provider]}
+          </span>
+          <Select value={entry.model} onValueChange={(model: string) => onChange(chain.map((e, j) => j === i ? { ...e, model } : e))}>
+            <SelectTrigger className="flex-1 h-7 text-xs min-w-0">
+              <SelectValue placeholder="Model" />
+            </SelectTrigger>
+            <SelectContent>
+              {[...new Set([entry.model, ...modelsFor(entry.provider)])].filter(Boolean).map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => move(i, -1)} disabled={i === 0} title="Move up">
+            <ArrowUp className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => move(i, 1)} disabled={i === chain.length - 1} title="Move down">
+            <ArrowDown className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => onChange(chain.filter((_, j) => j !== i))} title="Remove">
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      {unused.length > 0 && (
+        <Select value="" onValueChange={(provider: string) => onChange([...chain, { provider, model: defaultModel(provider) }])}>
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue placeholder="Add a fallback provider…" />
+          </SelectTrigger>
+          <SelectContent>
+            {unused.map(id => <SelectItem key={id} value={id}>{providers[id]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Tried in order when the selected provider is overloaded, rate limited, out of quota or unreachable, as long as nothing has been shown yet. Providers without a key are skipped.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button"
+import { AlertCircle, ArrowRight, Download, FileJson, FileText, Bookmark, Upload } from "lucide-react"
+import { useRef, useState } from "react"
+import {
+  applyImport, downloadBlob, exportLibrary, parseImportFile, planImport,
+  type ConflictResolution, type ExportFormat, type ImportPlan
+} from "@/services/library_io"
+import { type SavedArticle } from "@/services/library"
+
+interface LibraryTransferProps {
+  /** Articles currently shown, i.e. the filtered subset when a filter is active. */
+  visible: SavedArticle[];
+  all: SavedArticle[];
+  onImport: (articles: SavedArticle[]) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; icon: typeof FileJson }[] = [
+  { format: 'json', label: 'JSON backup', icon: FileJson },
+  { format: 'markdown', label: 'Markdown (.zip)', icon: FileText },
+  { format: 'bookmarks', label: 'Bookmarks HTML', icon: Bookmark },
+];
+
+/**
+ * Export and import controls for the library, with a conflict preview before anything is written.
+ */
+export function LibraryTransfer({ visible, all, onImport }: LibraryTransferProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [error, setError] = useState('');
+
+  const isSubset = visible.length !== all.length;
+
+  const handleExport = (format: ExportFormat) => {
+    const { filename, blob } = exportLibrary(visible, format);
+    downloadBlob(filename, blob);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    try {
+      const incoming = parseImportFile(file.name, new Uint8Array(await file.arrayBuffer()));
+      if (incoming.length === 0) throw new Error('No articles found in this file.');
+      setPlan(planImport(all, incoming));
+      setResolutions({});
+    } catch (err) {
+      console.error(err);
+      setError(`Import failed: ${err instanceof Error ? err.message : 'unreadable file'}`);
+    }
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    onImport(applyImport(all, plan, resolutions));
+    setPlan(null);
+  };
+
+  const resolveAll = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(plan!.conflicts.map(c => [c.existing.id, resolution])));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1 items-center">
+        <span className="text-xs text-muted-foreground mr-1 flex items-center gap-1">
+          <Download className="h-3 w-3" /> Export {isSubset ? `${visible.length} filtered` : 'all'}:
+        </span>
+        {FORMATS.map(({ format, label, icon: Icon }) => (
+          <Button key={format} variant="outline" size="sm" className="h-7 text-xs px-2" onClick={() => handleExport(format)} disabled={visible.length === 0}>
+            <Icon className="mr-1 h-3 w-3" /> {label}
+          </Button>
+        ))}
+        <Button variant="outline" size="sm" className="h-7 text-xs px-2" onClick={() => fileInput.current?.click()}>
+          <Upload className="mr-1 h-3 w-3" /> Import
+        </Button>
+        <input ref={fileInput} type="file" accept=".json,.zip,.md,.html,.htm" className="hidden" onChange={handleFile} />
+      </div>
+
+      {error && (
+        <div className="p-2 rounded bg-destructive/10 text-destructive flex gap-2 items-start text-xs">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {plan && (
+        <div className="rounded-lg border border-indigo-500/40 bg-indigo-500/5 p-3 space-y-3 text-xs">
+          <p className="font-semibold">
+            Import preview: {plan.added.length} new, {plan.conflicts.length} conflicting, {plan.unchanged} already in library
+          </p>
+
+          {plan.conflicts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex gap-2 items-center">
+                <span className="text-muted-foreground">Same link, different content:</span>
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => resolveAll('keep')}>Keep all mine</Button>
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => resolveAll('replace')}>Use all imported</Button>
+              </div>
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {plan.conflicts.map(({ existing, incoming }) => {
+                  const choice = resolutions[existing.id] || 'keep';
+                  return (
+                    <div key={existing.id} className="rounded bg-background/60 p-2 space-y-1">
+                      <div className="flex items-center gap-1 min-w-0">
+                        <span className="truncate">{existing.title}</span>
+                        {incoming.title !== existing.title && (
+                          <>
+                            <ArrowRight className="h-3 w-3 shrink-0" />
+                            <span className="truncate text-indigo-500">{incoming.title}</span>
+                          </>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        {(['keep', 'replace'] as const).map(option => (
+                          <button
+                            key={option}
+                            className={`px-1.5 py-0.5 rounded border ${choice === option ? 'bg-indigo-500 text-white border-indigo-500' : 'border-border hover:bg-muted'}`}
+                            onClick={() => setResolutions(prev => ({ ...prev, [existing.id]: option }))}
+                          >
+                            {option === 'keep' ? 'Keep mine' : 'Use imported'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setPlan(null)}>Cancel</Button>
+            <Button
+              size="sm"
+              className="h-7 text-xs bg-indigo-600 hover:bg-indigo-700 text-white"
+              onClick={handleApply}
+              disabled={plan.added.length === 0 && plan.conflicts.length === 0}
+            >
+              Import
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
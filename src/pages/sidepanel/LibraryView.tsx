@@ -0,0 +1,295 @@
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BookOpen, Calendar, FileText, Globe, Plus, Search, SlidersHorizontal, Tag, Trash2, Video, X } from "lucide-react"
+import { useDeferredValue, useMemo, useState } from "react"
+import {
+  buildSearchIndex, collectDomains, getDomain, collectTags, filterArticles, highlightSegments, normalizeTag, parseQuery, suggestTags,
+  EMPTY_FILTER, type LibraryFilter, type LibrarySort, type SavedArticle
+} from "@/services/library"
+import { LibraryTransfer } from "./LibraryTransfer"
+
+// Tooltip with the document metadata of a saved PDF
+function pdfDetails(article: SavedArticle): string {
+  const { subject, keywords, createdAt } = article.pdf || {};
+  return [
+    'PDF',
+    subject,
+    keywords && `Keywords: ${keywords}`,
+    createdAt && `Created ${new Date(createdAt).toLocaleDateString()}`
+  ].filter(Boolean).join('\n');
+}
+
+interface LibraryViewProps {
+  articles: SavedArticle[];
+  onClose: () => void;
+  onOpen: (url: string) => void;
+  onDelete: (id: string, e: React.MouseEvent) => void;
+  onUpdateTags: (id: string, tags: string[]) => void;
+  onImport: (articles: SavedArticle[]) => void;
+}
+
+const ALL = '__all__';
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, i) => segment.match
+        ? <mark key={i} className="bg-indigo-500/30 text-inherit rounded-sm">{segment.text}</mark>
+        : <span key={i}>{segment.text}</span>)}
+    </>
+  );
+}
+
+/**
+ * Short excerpt of the summary around the first match, so hits in long summaries are visible.
+ */
+function excerpt(summary: string, terms: string[]): string {
+  const plain = summary.replace(/[#*_>`]/g, '').replace(/\s+/g, ' ').trim();
+  const lower = plain.toLowerCase();
+  const index = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i >= 0));
+  if (!Number.isFinite(index)) return '';
+  const start = Math.max(0, index - 40);
+  return `${start > 0 ? '…' : ''}${plain.slice(start, start + 160)}…`;
+}
+
+function TagEditor({ article, onUpdateTags }: { article: SavedArticle; onUpdateTags: (id: string, tags: string[]) => void }) {
+  const [input, setInput] = useState('');
+  const tags = article.tags || [];
+  const suggestions = useMemo(() => suggestTags(article.summary || '', article.tags), [article.summary, article.tags]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) onUpdateTags(article.id, [...tags, tag]);
+    setInput('');
+  };
+
+  return (
+    <div className="space-y-2 pt-2" onClick={(e) => e.stopPropagation()}>
+      <form className="flex gap-1" onSubmit={(e) => { e.preventDefault(); addTag(input); }}>
+        <Input className="h-7 text-xs" placeholder="Add tag..." value={input} onChange={(e) => setInput(e.target.value)} />
+        <Button type="submit" size="icon" variant="outline" className="h-7 w-7 shrink-0" disabled={!input.trim()}>
+          <Plus className="h-3 w-3" />
+        </Button>
+      </form>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1 items-center">
+          <span className="text-[10px] text-muted-foreground">Suggested:</span>
+          {suggestions.map(tag => (
+            <button
+              key={tag}
+              className="text-[10px] px-1.5 py-0.5 rounded-full border border-dashed border-indigo-500/40 text-indigo-500 hover:bg-indigo-500/10"
+              onClick={() => addTag(tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function LibraryView({ articles, onClose, onOpen, onDelete, onUpdateTags, onImport }: LibraryViewProps) {
+  const [filter, setFilter] = useState<LibraryFilter>(EMPTY_FILTER);
+  const [showFilters, setShowFilters] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Typing in the search box stays responsive while results are recomputed
+  const deferredFilter = useDeferredValue(filter);
+  const index = useMemo(() => buildSearchIndex(articles), [articles]);
+  const results = useMemo(() => filterArticles(index, deferredFilter), [index, deferredFilter]);
+  const terms = useMemo(() => parseQuery(deferredFilter.query), [deferredFilter.query]);
+  const allTags = useMemo(() => collectTags(articles), [articles]);
+  const domains = useMemo(() => collectDomains(index), [index]);
+
+  const update = (patch: Partial<LibraryFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+  const toggleTag = (tag: string) => update({
+    tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag]
+  });
+  const isFiltered = filter.query || filter.tags.length > 0 || filter.domain || filter.from || filter.to;
+
+  return (
+    <div className="w-full h-screen bg-background text-foreground flex flex-col">
+      <header className="flex justify-between items-center p-4 border-b border-border/40 shrink-0">
+        <div className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5 text-indigo-500" />
+          <h1 className="text-lg font-bold">Library</h1>
+          <span className="text-xs text-muted-foreground">{isFiltered ? `${results.length} / ${articles.length}` : articles.length}</span>
+        </div>
+        <Button variant="ghost" onClick={onClose}>Close</Button>
+      </header>
+
+      <div className="p-3 border-b border-border/40 bg-muted/10 shrink-0 space-y-2">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
+            <Input
+              className="h-8 pl-8 text-sm"
+              placeholder="Search titles, links and summaries..."
+              value={filter.query}
+              onChange={(e) => update({ query: e.target.value })}
+            />
+          </div>
+          <Button
+            variant={showFilters ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => setShowFilters(v => !v)}
+            title="Filters"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {showFilters && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Select value={filter.domain || ALL} onValueChange={(v: string) => update({ domain: v === ALL ? '' : v })}>
+                <SelectTrigger className="flex-1 h-8 text-xs">
+                  <SelectValue placeholder="Domain" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All domains</SelectItem>
+                  {domains.map(d => <SelectItem key={d} value={d}>{d}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={filter.sort} onValueChange={(v: string) => update({ sort: v as LibrarySort })}>
+                <SelectTrigger className="w-[110px] h-8 text-xs">
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest</SelectItem>
+                  <SelectItem value="oldest">Oldest</SelectItem>
+                  <SelectItem value="title">Title A-Z</SelectItem>
+                  <SelectItem value="domain">Domain</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 items-center text-xs text-muted-foreground">
+              <Calendar className="h-3 w-3 shrink-0" />
+              <Input type="date" className="h-7 text-xs" value={filter.from} onChange={(e) => update({ from: e.target.value })} />
+              <span>–</span>
+              <Input type="date" className="h-7 text-xs" value={filter.to} onChange={(e) => update({ to: e.target.value })} />
+            </div>
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {allTags.map(([tag, count]) => (
+                  <button
+                    key={tag}
+                    className={`text-[10px] px-1.5 py-0.5 rounded-full border ${filter.tags.includes(tag) ? 'bg-indigo-500 text-white border-indigo-500' : 'border-border hover:bg-muted'}`}
+                    onClick={() => toggleTag(tag)}
+                  >
+                    #{tag} <span className="opacity-60">{count}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {isFiltered && (
+              <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setFilter({ ...EMPTY_FILTER, sort: filter.sort })}>
+                <X className="mr-1 h-3 w-3" /> Clear filters
+              </Button>
+            )}
+          </div>
+        )}
+
+        <LibraryTransfer visible={isFiltered ? results : articles} all={articles} onImport={onImport} />
+      </div>
+
+      <ScrollArea className="flex-1 p-4">
+        {articles.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-40 text-center space-y-4 mt-10 text-muted-foreground">
+            <BookOpen className="h-10 w-10 opacity-20" />
+            <p>No articles saved yet.</p>
+          </div>
+        ) : results.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-40 text-center space-y-4 mt-10 text-muted-foreground">
+            <Search className="h-10 w-10 opacity-20" />
+            <p>No articles match your search.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {results.map(article => {
+              const snippet = terms.length > 0 && article.summary ? excerpt(article.summary, terms) : '';
+              return (
+                <Card
+                  key={article.id}
+                  className="cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => onOpen(article.url)}
+                >
+                  <CardContent className="p-4 flex gap-3 items-start">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <h3 className="font-medium text-sm leading-snug line-clamp-2"><Highlighted text={article.title} terms={terms} /></h3>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Calendar className="h-3 w-3" />
+                        <span>{new Date(article.savedAt).toLocaleDateString()}</span>
+                        {article.contentType === 'pdf' ? (
+                          <>
+                            <FileText className="h-3 w-3" />
+                            <span className="truncate" title={pdfDetails(article)}>
+                              {[article.pdf && `${article.pdf.pageCount} ${article.pdf.pageCount === 1 ? 'page' : 'pages'}`, article.author || getDomain(article.url)].filter(Boolean).join(' · ')}
+                            </span>
+                          </>
+                        ) : article.contentType === 'video' ? (
+                          <>
+                            <Video className="h-3 w-3" />
+                            <span className="truncate" title="Video">{article.author || getDomain(article.url)}</span>
+                          </>
+                        ) : (
+                          <>
+                            <Globe className="h-3 w-3" />
+                            <span className="truncate"><Highlighted text={getDomain(article.url)} terms={terms} /></span>
+                          </>
+                        )}
+                      </div>
+                      {snippet && (
+                        <p className="text-xs text-muted-foreground line-clamp-2"><Highlighted text={snippet} terms={terms} /></p>
+                      )}
+                      {(article.tags?.length || 0) > 0 && (
+                        <div className="flex flex-wrap gap-1 pt-1">
+                          {article.tags!.map(tag => (
+                            <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded-full bg-indigo-500/10 text-indigo-500 flex items-center gap-0.5">
+                              #{tag}
+                              {editingId === article.id && (
+                                <X
+                                  className="h-2.5 w-2.5 cursor-pointer"
+                                  onClick={(e) => { e.stopPropagation(); onUpdateTags(article.id, article.tags!.filter(t => t !== tag)); }}
+                                />
+                              )}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {editingId === article.id && <TagEditor article={article} onUpdateTags={onUpdateTags} />}
+                    </div>
+                    <div className="flex flex-col gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className={`h-6 w-6 text-muted-foreground hover:text-indigo-500 transition-opacity ${editingId === article.id ? 'opacity-100 text-indigo-500' : 'opacity-0 group-hover:opacity-100'}`}
+                        onClick={(e) => { e.stopPropagation(); setEditingId(id => id === article.id ? null : article.id); }}
+                        title="Edit tags"
+                      >
+                        <Tag className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={(e) => onDelete(article.id, e)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
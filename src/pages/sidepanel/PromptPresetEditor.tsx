@@ -0,0 +1,118 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Copy, Plus, Trash2 } from "lucide-react"
+import { useState } from "react"
+import { duplicatePreset, TEMPLATE_VARIABLES, type PromptPreset } from "@/services/prompts"
+
+interface PromptPresetEditorProps {
+  presets: PromptPreset[];
+  onChange: (presets: PromptPreset[]) => void;
+  /** Provider id to display name, for the per-preset default provider. */
+  providers: Record<string, string>;
+}
+
+const ANY = '__any__';
+
+export function PromptPresetEditor({ presets, onChange, providers }: PromptPresetEditorProps) {
+  const [editingId, setEditingId] = useState<string>(presets[0]?.id || '');
+  const editing = presets.find(p => p.id === editingId) || presets[0];
+
+  const update = (patch: Partial<PromptPreset>) => {
+    onChange(presets.map(p => p.id === editing.id ? { ...p, ...patch } : p));
+  };
+
+  const handleNew = () => {
+    const preset: PromptPreset = { id: crypto.randomUUID(), name: 'New preset', template: 'Summarize "{{TITLE}}" in {{LANGUAGE}}.' };
+    onChange([...presets, preset]);
+    setEditingId(preset.id);
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicatePreset(editing, presets);
+    onChange([...presets, copy]);
+    setEditingId(copy.id);
+  };
+
+  const handleDelete = () => {
+    const index = presets.findIndex(p => p.id === editing.id);
+    const remaining = presets.filter(p => p.id !== editing.id);
+    onChange(remaining);
+    setEditingId(remaining[Math.min(index, remaining.length - 1)]?.id || '');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        <Select value={editing?.id || ''} onValueChange={setEditingId} disabled={presets.length === 0}>
+          <SelectTrigger className="flex-1 h-8 text-xs">
+            <SelectValue placeholder="No presets" />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map(p => <SelectItem key={p.id} value={p.id}>{p.name || 'Untitled'}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={handleNew} title="New preset">
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={handleDuplicate} disabled={!editing} title="Duplicate preset">
+          <Copy className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8 shrink-0 hover:text-destructive" onClick={handleDelete} disabled={!editing} title="Delete preset">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {editing && (
+        <div className="space-y-2">
+          <Input
+            className="h-8 text-sm"
+            placeholder="Preset name"
+            value={editing.name}
+            onChange={(e) => update({ name: e.target.value })}
+          />
+          <textarea
+            className="flex min-h-[120px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            placeholder="You are a professional content distiller..."
+            value={editing.template}
+            onChange={(e) => update({ template: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-1">
+              <Label className="text-xs text-muted-foreground">Default provider</Label>
+              <Select value={editing.provider || ANY} onValueChange={(v: string) => update({ provider: v === ANY ? undefined : v })}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Keep current</SelectItem>
+                  {Object.entries(providers).map(([id, label]) => <SelectItem key={id} value={id}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label className="text-xs text-muted-foreground">Default model</Label>
+              <Input
+                className="h-8 text-xs"
+                placeholder="Keep current"
+                value={editing.model || ''}
+                disabled={!editing.provider}
+                onChange={(e) => update({ model: e.target.value.trim() || undefined })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="text-xs text-muted-foreground space-y-0.5">
+        <p>Placeholders:</p>
+        <ul className="grid grid-cols-2 gap-x-2">
+          {Object.entries(TEMPLATE_VARIABLES).map(([name, description]) => (
+            <li key={name} title={description}><code>{`{{${name}}}`}</code> <span className="opacity-70">{description}</span></li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
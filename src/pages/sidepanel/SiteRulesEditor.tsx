@@ -0,0 +1,150 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Crosshair, Plus, Trash2 } from "lucide-react"
+import { useState } from "react"
+import { getDomain } from "@/services/library"
+import { type PromptPreset } from "@/services/prompts"
+import { isValidSelector, matchesPattern, type SiteRule } from "@/services/site_rules"
+
+interface SiteRulesEditorProps {
+  rules: SiteRule[];
+  onChange: (rules: SiteRule[]) => void;
+  presets: PromptPreset[];
+  /** URL of the active tab, to prefill new rules and show whether a rule applies. */
+  currentUrl: string;
+  /** Lets the user click an element in the active tab; resolves with its selector, or null when cancelled. */
+  onPick: () => Promise<string | null>;
+}
+
+const SELECTED_PRESET = '__selected__';
+
+export function SiteRulesEditor({ rules, onChange, presets, currentUrl, onPick }: SiteRulesEditorProps) {
+  const [editingId, setEditingId] = useState<string>(rules[0]?.id || '');
+  const [picking, setPicking] = useState<'include' | 'exclude' | null>(null);
+  const [pickError, setPickError] = useState('');
+  const editing = rules.find(r => r.id === editingId) || rules[0];
+
+  const update = (patch: Partial<SiteRule>) => {
+    onChange(rules.map(r => r.id === editing.id ? { ...r, ...patch } : r));
+  };
+
+  const handleNew = () => {
+    const rule: SiteRule = { id: crypto.randomUUID(), pattern: getDomain(currentUrl), include: '', exclude: '' };
+    onChange([...rules, rule]);
+    setEditingId(rule.id);
+  };
+
+  const handleDelete = () => {
+    const index = rules.findIndex(r => r.id === editing.id);
+    const remaining = rules.filter(r => r.id !== editing.id);
+    onChange(remaining);
+    setEditingId(remaining[Math.min(index, remaining.length - 1)]?.id || '');
+  };
+
+  const handlePick = async (field: 'include' | 'exclude') => {
+    setPicking(field);
+    setPickError('');
+    try {
+      const selector = await onPick();
+      if (selector) {
+        // Picked elements are added to the list, so several regions can be combined
+        const current = editing[field].trim();
+        update({ [field]: current ? `${current}, ${selector}` : selector });
+      }
+    } catch (e) {
+      setPickError(e instanceof Error ? e.message : 'Could not pick an element on this page');
+    } finally {
+      setPicking(null);
+    }
+  };
+
+  const selectorField = (field: 'include' | 'exclude', label: string, placeholder: string) => {
+    const valid = isValidSelector(editing[field]);
+    return (
+      <div className="space-y-1">
+        <Label className="text-xs">{label}</Label>
+        <div className="flex gap-1">
+          <Input
+            className={`h-8 text-xs font-mono ${valid ? '' : 'border-destructive'}`}
+            placeholder={placeholder}
+            value={editing[field]}
+            onChange={(e) => update({ [field]: e.target.value })}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            className={`h-8 w-8 shrink-0 ${picking === field ? 'text-indigo-500 border-indigo-500' : ''}`}
+            onClick={() => handlePick(field)}
+            disabled={picking !== null}
+            title="Pick an element on the page"
+          >
+            <Crosshair className="h-4 w-4" />
+          </Button>
+        </div>
+        {!valid && <p className="text-xs text-destructive">Not a valid CSS selector.</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        <Select value={editing?.id || ''} onValueChange={setEditingId} disabled={rules.length === 0}>
+          <SelectTrigger className="flex-1 h-8 text-xs">
+            <SelectValue placeholder="No site rules" />
+          </SelectTrigger>
+          <SelectContent>
+            {rules.map(r => <SelectItem key={r.id} value={r.id}>{r.pattern || 'Untitled'}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={handleNew} title="New site rule">
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8 shrink-0 hover:text-destructive" onClick={handleDelete} disabled={!editing} title="Delete site rule">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {editing && (
+        <div className="space-y-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Domain or URL pattern</Label>
+            <Input
+              className="h-8 text-xs font-mono"
+              placeholder="wiki.example.com or https://example.com/news/*"
+              value={editing.pattern}
+              onChange={(e) => update({ pattern: e.target.value })}
+            />
+            {currentUrl && matchesPattern(editing.pattern, currentUrl) && (
+              <p className="text-xs text-muted-foreground">Applies to the current page.</p>
+            )}
+          </div>
+          {selectorField('include', 'Content (empty lets reader mode find it)', 'article .post-body')}
+          {selectorField('exclude', 'Leave out', '#comments, .related-links')}
+          {picking && <p className="text-xs text-indigo-500">Click an element on the page, or press Esc to cancel.</p>}
+          {pickError && <p className="text-xs text-destructive">{pickError}</p>}
+          <div className="space-y-1">
+            <Label className="text-xs">Prompt preset</Label>
+            <Select
+              value={editing.presetId || SELECTED_PRESET}
+              onValueChange={(id: string) => update({ presetId: id === SELECTED_PRESET ? undefined : id })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SELECTED_PRESET}>The selected preset</SelectItem>
+                {presets.map(p => <SelectItem key={p.id} value={p.id}>{p.name || 'Untitled'}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        On matching pages, the content selectors are used instead of reader mode, and matching elements are left out of whatever is extracted. The first matching rule applies.
+      </p>
+    </div>
+  );
+}
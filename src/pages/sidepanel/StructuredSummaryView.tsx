@@ -0,0 +1,60 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { CheckSquare, Lightbulb, Users, Zap } from "lucide-react"
+import { type Sentiment, type StructuredSummary } from "@/services/structured"
+
+const SENTIMENT_STYLES: Record<Sentiment, string> = {
+  positive: 'bg-green-500/10 text-green-500',
+  neutral: 'bg-muted text-muted-foreground',
+  negative: 'bg-red-500/10 text-red-500',
+  mixed: 'bg-orange-500/10 text-orange-500'
+};
+
+function ListCard({ title, icon: Icon, items }: { title: string; icon: typeof Zap; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <Card>
+      <CardHeader className="p-3 pb-1">
+        <CardTitle className="text-sm flex items-center gap-2 text-indigo-400">
+          <Icon className="h-4 w-4" /> {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-3 pt-1">
+        <ul className="list-disc pl-4 space-y-1 text-sm">
+          {items.map((item, i) => <li key={i}>{item}</li>)}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function StructuredSummaryView({ summary }: { summary: StructuredSummary }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <h1 className="text-xl font-bold bg-gradient-to-r from-indigo-400 to-violet-400 bg-clip-text text-transparent">{summary.title}</h1>
+        <span className={`text-[10px] px-2 py-0.5 rounded-full shrink-0 mt-1.5 capitalize ${SENTIMENT_STYLES[summary.sentiment]}`}>
+          {summary.sentiment}
+        </span>
+      </div>
+
+      <Card className="border-indigo-500/40 bg-indigo-500/5">
+        <CardContent className="p-3 flex gap-2 text-sm">
+          <Zap className="h-4 w-4 text-indigo-500 shrink-0 mt-0.5" />
+          <p><span className="font-semibold">TL;DR</span> {summary.tldr}</p>
+        </CardContent>
+      </Card>
+
+      <ListCard title="Key Takeaways" icon={Lightbulb} items={summary.takeaways} />
+      <ListCard title="Action Items" icon={CheckSquare} items={summary.actionItems} />
+
+      {summary.entities.length > 0 && (
+        <div className="flex flex-wrap gap-1 items-center">
+          <Users className="h-3 w-3 text-muted-foreground mr-1" />
+          {summary.entities.map(entity => (
+            <span key={entity} className="text-[10px] px-1.5 py-0.5 rounded-full border border-border">{entity}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, X } from "lucide-react"
+import { useMemo, useState } from "react"
+import {
+  findPrice, formatCost, monthKey, sumTotals, DEFAULT_PRICING,
+  type ModelPrice, type SpendingCap, type UsageLedger
+} from "@/services/usage"
+
+interface UsageDashboardProps {
+  ledger: UsageLedger;
+  /** User prices, layered over `DEFAULT_PRICING`. */
+  pricing: Record<string, ModelPrice>;
+  onPricingChange: (pricing: Record<string, ModelPrice>) => void;
+  caps: Record<string, SpendingCap>;
+  onCapsChange: (caps: Record<string, SpendingCap>) => void;
+  onClear: () => void;
+  /** Provider id to display name. */
+  providers: Record<string, string>;
+}
+
+const formatTokens = (n: number) => n >= 10_000 ? `${Math.round(n / 1000)}k` : n.toLocaleString();
+
+export function UsageDashboard({ ledger, pricing, onPricingChange, caps, onCapsChange, onClear, providers }: UsageDashboardProps) {
+  const months = useMemo(() => Object.keys(ledger).sort().reverse(), [ledger]);
+  const [month, setMonth] = useState(monthKey());
+  const [newModel, setNewModel] = useState('');
+  const byProvider = ledger[month] || {};
+  const monthTotal = sumTotals(Object.values(byProvider).flatMap(models => Object.values(models)));
+  const effectivePricing = { ...DEFAULT_PRICING, ...pricing };
+
+  // Models used this month without a known price are worth pointing out
+  const unpriced = Object.entries(byProvider)
+    .filter(([provider]) => provider !== 'chrome')
+    .flatMap(([, models]) => Object.keys(models))
+    .filter(model => !findPrice(model, effectivePricing));
+
+  const updateCap = (provider: string, patch: Partial<SpendingCap>) => {
+    const current: SpendingCap = caps[provider] || { limit: 0, mode: 'warn' };
+    onCapsChange({ ...caps, [provider]: { ...current, ...patch } });
+  };
+
+  const updatePrice = (model: string, patch: Partial<ModelPrice>) => {
+    const current = effectivePricing[model] || { input: 0, output: 0 };
+    onPricingChange({ ...pricing, [model]: { ...current, ...patch } });
+  };
+
+  const removePrice = (model: string) => {
+    const next = { ...pricing };
+    delete next[model];
+    onPricingChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 items-center">
+        <Select value={month} onValueChange={setMonth}>
+          <SelectTrigger className="w-[120px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[...new Set([monthKey(), ...months])].map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <span className="text-sm font-semibold flex-1 text-right">{formatCost(monthTotal.cost)}</span>
+      </div>
+
+      {monthTotal.requests === 0 ? (
+        <p className="text-xs text-muted-foreground">No requests this month.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left font-normal">Model</th>
+              <th className="text-right font-normal">Req.</th>
+              <th className="text-right font-normal">In / Out</th>
+              <th className="text-right font-normal">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(byProvider).flatMap(([provider, models]) => Object.entries(models).map(([model, totals]) => (
+              <tr key={`${provider}/${model}`} className="border-t border-border/40">
+                <td className="py-1 truncate max-w-[120px]" title={`${providers[provider] || provider} · ${model}`}>
+                  {model} <span className="text-muted-foreground">{providers[provider] || provider}</span>
+                </td>
+                <td className="text-right">{totals.requests}</td>
+                <td className="text-right" title={totals.estimatedRequests ? `${totals.estimatedRequests} estimated` : undefined}>
+                  {totals.estimatedRequests > 0 && '~'}{formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}
+                </td>
+                <td className="text-right">{formatCost(totals.cost)}</td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      )}
+      {unpriced.length > 0 && (
+        <p className="text-xs text-orange-500">No price set for {unpriced.join(', ')}; add one below to track its cost.</p>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-xs">Monthly caps (USD, 0 = none)</Label>
+        {Object.entries(providers).filter(([id]) => id !== 'chrome').map(([id, name]) => (
+          <div key={id} className="flex gap-2 items-center">
+            <span className="text-xs flex-1">{name}</span>
+            <Input
+              type="number"
+              min={0}
+              step="0.5"
+              className="h-7 w-20 text-xs"
+              value={caps[id]?.limit || 0}
+              onChange={(e) => updateCap(id, { limit: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <Select value={caps[id]?.mode || 'warn'} onValueChange={(v: string) => updateCap(id, { mode: v as SpendingCap['mode'] })}>
+              <SelectTrigger className="w-[80px] h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Warn</SelectItem>
+                <SelectItem value="block">Block</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Prices (USD per 1M tokens, input / output)</Label>
+        <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+          {Object.entries(effectivePricing).map(([model, price]) => (
+            <div key={model} className="flex gap-1 items-center">
+              <span className={`text-xs flex-1 truncate ${pricing[model] ? 'font-medium' : 'text-muted-foreground'}`}>{model}</span>
+              <Input type="number" min={0} step="0.01" className="h-7 w-16 text-xs" value={price.input} onChange={(e) => updatePrice(model, { input: Math.max(0, Number(e.target.value) || 0) })} />
+              <Input type="number" min={0} step="0.01" className="h-7 w-16 text-xs" value={price.output} onChange={(e) => updatePrice(model, { output: Math.max(0, Number(e.target.value) || 0) })} />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => removePrice(model)}
+                disabled={!pricing[model]}
+                title={DEFAULT_PRICING[model] ? 'Reset to list price' : 'Remove'}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <form className="flex gap-1" onSubmit={(e) => { e.preventDefault(); if (newModel.trim()) updatePrice(newModel.trim(), {}); setNewModel(''); }}>
+          <Input className="h-7 text-xs" placeholder="Model name or prefix, e.g. llama3" value={newModel} onChange={(e) => setNewModel(e.target.value)} />
+          <Button type="submit" variant="outline" size="icon" className="h-7 w-7 shrink-0" disabled={!newModel.trim()}>
+            <Plus className="h-3 w-3" />
+          </Button>
+        </form>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <p className="text-xs text-muted-foreground">~ marks estimates for providers that don't report usage.</p>
+        <Button variant="outline" size="sm" onClick={onClear}>Reset</Button>
+      </div>
+    </div>
+  );
+}
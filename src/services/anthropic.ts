@@ -1,4 +1,18 @@
-import { type LLMService, type SummaryOptions, constructPrompt } from './llm';
+import { type LLMService, type SummaryOptions, type ChatMessage, type ChatOptions, constructPrompt } from './llm';
+import { ProviderError, providerFetch, responseError, withRetry } from './errors';
+import { parseSSE, parseEventData } from './sse';
+
+// The parts of the Messages streaming events we read
+interface AnthropicStreamEvent {
+    type: string;
+    delta?: { type: string; text?: string; partial_json?: string };
+    message?: { usage?: { input_tokens?: number } };
+    /** Cumulative output tokens, on `message_delta`. */
+    usage?: { output_tokens?: number };
+    error?: { type: string; message: string };
+}
+
+const STRUCTURED_TOOL = 'record_response';
 
 export const Anthropic: LLMService = {
     name: 'Anthropic',
@@ -30,60 +44,69 @@ export const Anthropic: LLMService = {
         }
     },
 
+    getContextWindow(): number {
+        // All current Claude models share a 200k window
+        return 200_000;
+    },
+
     async *summarize(text: string, options: SummaryOptions): AsyncGenerator<string, void, unknown> {
         const prompt = constructPrompt(options, text);
+        yield* Anthropic.chat([{ role: 'user', content: prompt }], options);
+    },
 
-        const res = await fetch('https://api.anthropic.com/v1/messages', {
-            method: 'POST',
-            headers: {
-                'x-api-key': options.apiKey,
-                'anthropic-version': '2023-06-01',
-                'content-type': 'application/json',
-                'anthropic-dangerous-direct-browser-access': 'true' // Required for browser calls
-            },
-            body: JSON.stringify({
-                model: options.model || 'claude-3-5-sonnet-20240620',
-                max_tokens: 1024,
-                messages: [{ role: 'user', content: prompt }],
-                stream: true
-            })
-        });
+    chat(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string, void, unknown> {
+        // Overload errors can also arrive as the first event of a 200 stream; both are retried
+        return withRetry(() => streamMessages(messages, options), options);
+    }
+};
 
-        if (!res.ok) {
-            const err = await res.text();
-            throw new Error(`Anthropic API Error: ${res.status} ${err}`);
-        }
+async function* streamMessages(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string, void, unknown> {
+    const res = await providerFetch('Anthropic', 'https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+            'x-api-key': options.apiKey,
+            'anthropic-version': '2023-06-01',
+            'content-type': 'application/json',
+            'anthropic-dangerous-direct-browser-access': 'true' // Required for browser calls
+        },
+        signal: options.signal,
+        body: JSON.stringify({
+            model: options.model || 'claude-3-5-sonnet-20240620',
+            max_tokens: 1024,
+            system: options.system,
+            messages,
+            // Structured output is a forced call to a tool whose input is the schema
+            ...(options.responseSchema ? {
+                tools: [{ name: STRUCTURED_TOOL, description: 'Record the response.', input_schema: options.responseSchema }],
+                tool_choice: { type: 'tool', name: STRUCTURED_TOOL }
+            } : {}),
+            stream: true
+        })
+    });
 
-        if (!res.body) throw new Error('No response body');
+    if (!res.ok) throw await responseError('Anthropic', res);
 
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
+    if (!res.body) throw new Error('No response body');
 
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
+    let inputTokens = 0;
+    for await (const sse of parseSSE(res.body)) {
+        if (sse.event === 'ping') continue;
+        const event = parseEventData<AnthropicStreamEvent>(sse, 'Anthropic');
 
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
+        if (event.type === 'message_start') inputTokens = event.message?.usage?.input_tokens || 0;
+        if (event.type === 'message_delta' && event.usage) {
+            options.onUsage?.({ inputTokens, outputTokens: event.usage.output_tokens || 0 });
+        }
 
-            for (const line of lines) {
-                if (line.trim() === '') continue;
-                if (line.startsWith('event: ')) continue;
-                if (line.startsWith('data: ')) {
-                    const dataStr = line.slice(6);
-                    if (dataStr === '[DONE]') return;
-                    try {
-                        const event = JSON.parse(dataStr);
-                        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
-                            yield event.delta.text;
-                        }
-                    } catch (e) {
-                        console.warn(e);
-                    }
-                }
-            }
+        if (event.type === 'error') {
+            throw new ProviderError('Anthropic', event.error?.message || 'Stream error', { type: event.error?.type });
         }
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            yield event.delta.text;
+        }
+        if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+            yield event.delta.partial_json;
+        }
+        if (event.type === 'message_stop') return;
     }
-};
+}
@@ -1,4 +1,11 @@
-import { type LLMService, type SummaryOptions } from './llm';
+import { type LLMService, type SummaryOptions, type ChatMessage, type ChatOptions } from './llm';
+import { fillTemplate } from './prompts';
+
+// Subset of the Prompt API session we rely on
+interface LanguageModelSession {
+    promptStreaming(prompt: string, options?: { signal?: AbortSignal }): AsyncIterable<string>;
+    destroy(): void;
+}
 
 export class ChromeAIService implements LLMService {
     name = 'Chrome Built-in AI';
@@ -32,12 +39,48 @@ export class ChromeAIService implements LLMService {
         return status === 'AVAILABLE' ? ['gemini-nano'] : [];
     }
 
+    getContextWindow(): number {
+        // Gemini Nano sessions are limited to a few thousand tokens
+        return 4_096;
+    }
+
     async *summarize(content: string, options: SummaryOptions): AsyncGenerator<string> {
+        const systemPrompt = options.customPrompt
+            ? fillTemplate(options.customPrompt, { ...options.variables, LANGUAGE: options.language })
+            : "You are a helpful assistant that summarizes web articles. Provide a concise markdown summary with a Title.";
+
+        yield* this.promptSession(
+            { systemPrompt },
+            `Please summarize the following content:\n\n${content}`,
+            options.signal
+        );
+    }
+
+    async *chat(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string> {
+        const last = messages[messages.length - 1];
+        if (!last || last.role !== 'user') {
+            throw new Error("Chat must end with a user message.");
+        }
+
+        // Earlier turns are replayed into the new session as its history
+        yield* this.promptSession(
+            { systemPrompt: options.system, initialPrompts: messages.slice(0, -1) },
+            last.content,
+            options.signal
+        );
+    }
+
+    private async *promptSession(
+        createOptions: { systemPrompt?: string; initialPrompts?: ChatMessage[] },
+        prompt: string,
+        signal?: AbortSignal
+    ): AsyncGenerator<string> {
         const ai = (self as any).ai;
         if (!ai?.languageModel) {
             throw new Error("Chrome Built-in AI is not available in this browser. Please enable flags.");
         }
 
+        let session: LanguageModelSession | null = null;
         try {
             const capabilities = await ai.languageModel.capabilities();
             if (capabilities.available === 'no') {
@@ -45,26 +88,21 @@ export class ChromeAIService implements LLMService {
             }
 
             // Create a session
-            const session = await ai.languageModel.create({
-                systemPrompt: options.customPrompt
-                    ? options.customPrompt
-                    : "You are a helpful assistant that summarizes web articles. Provide a concise markdown summary with a Title."
-            });
-
-            // Prompt
-            const prompt = `Please summarize the following content:\n\n${content}`;
+            session = await ai.languageModel.create({ ...createOptions, signal }) as LanguageModelSession;
 
-            const stream = session.promptStreaming(prompt);
+            const stream = session.promptStreaming(prompt, { signal });
             for await (const chunk of stream) {
                 yield chunk;
             }
 
-            // Cleanup
-            session.destroy();
-
         } catch (e: any) {
+            // Cancellation is not a failure, let the caller see the AbortError as is
+            if (signal?.aborted) throw e;
             console.error("Chrome AI Error:", e);
             throw new Error(`Chrome AI failed: ${e.message}`);
+        } finally {
+            // Cleanup, also when the stream was aborted or failed halfway
+            session?.destroy();
         }
     }
 }
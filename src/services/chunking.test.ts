@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, getChunkBudget, splitIntoChunks, summarizeChunked, type ChunkProgress } from './chunking';
+import { type LLMService, type SummaryOptions } from './llm';
+import { collect } from '@/test/streams';
+
+function fakeService(contextWindow: number, calls: string[]): LLMService {
+    return {
+        name: 'Fake',
+        validateKey: async () => true,
+        getModels: async () => ['fake'],
+        getContextWindow: () => contextWindow,
+        async *summarize(text: string) {
+            calls.push(text);
+            yield `summary of ${text.length} chars`;
+        },
+        async *chat() {
+            yield '';
+        }
+    };
+}
+
+const options: SummaryOptions = { apiKey: 'key', language: 'en', model: 'fake' };
+
+describe('splitIntoChunks', () => {
+    it('keeps paragraphs together when they fit', () => {
+        const text = 'First paragraph.\n\nSecond paragraph.\n\nThird paragraph.';
+        expect(splitIntoChunks(text, 100)).toEqual(['First paragraph.\n\nSecond paragraph.\n\nThird paragraph.']);
+    });
+
+    it('splits on paragraph boundaries within the budget', () => {
+        const paragraph = 'word '.repeat(30).trim();
+        const chunks = splitIntoChunks([paragraph, paragraph, paragraph].join('\n\n'), 50);
+        expect(chunks).toHaveLength(3);
+        chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(50));
+    });
+
+    it('falls back to sentences and hard cuts for huge paragraphs', () => {
+        const text = 'Short sentence. ' + 'x'.repeat(500);
+        const chunks = splitIntoChunks(text, 20);
+        chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(80));
+        expect(chunks.join('').replace(/\s/g, '')).toBe(text.replace(/\s/g, ''));
+    });
+});
+
+describe('summarizeChunked', () => {
+    it('sends short texts in a single call', async () => {
+        const calls: string[] = [];
+        await collect(summarizeChunked(fakeService(100_000, calls), 'Short article.', options));
+        expect(calls).toEqual(['Short article.']);
+    });
+
+    it('maps every chunk and reduces the partial summaries', async () => {
+        const calls: string[] = [];
+        const progress: ChunkProgress[] = [];
+        const service = fakeService(1_536, calls);
+        const budget = getChunkBudget(service, 'fake');
+        const paragraph = 'lorem ipsum '.repeat(budget / 4);
+        const text = Array.from({ length: 5 }, () => paragraph).join('\n\n');
+
+        const result = await collect(summarizeChunked(service, text, options, p => progress.push(p)));
+
+        const mapSteps = progress.filter(p => p.phase === 'map');
+        expect(mapSteps.length).toBeGreaterThan(1);
+        expect(mapSteps.at(-1)).toEqual({ phase: 'map', current: mapSteps.length, total: mapSteps.length });
+        expect(calls).toHaveLength(mapSteps.length + 1);
+        expect(calls.at(-1)).toContain('consecutive sections');
+        expect(result).toMatch(/^summary of/);
+    });
+
+    it('stops between chunks when aborted', async () => {
+        const calls: string[] = [];
+        const controller = new AbortController();
+        const service = fakeService(1_536, calls);
+        const text = Array.from({ length: 5 }, () => 'lorem ipsum '.repeat(100)).join('\n\n');
+
+        const run = collect(summarizeChunked(service, text, { ...options, signal: controller.signal }, () => {
+            if (calls.length === 1) controller.abort();
+        }));
+        await expect(run).rejects.toThrow();
+        expect(calls.length).toBeLessThan(5);
+    });
+});
@@ -0,0 +1,154 @@
+import { type LLMService, type SummaryOptions } from './llm';
+
+export interface ChunkProgress {
+    phase: 'map' | 'reduce';
+    current: number;
+    total: number;
+}
+
+// Tokens kept free for the model's answer and the prompt wrapper around each chunk
+const OUTPUT_RESERVE = 1024;
+const PROMPT_RESERVE = 256;
+
+// Large-context models could take a whole book in one call, but quality drops
+// long before the hard limit, so we never send more than this per request.
+const MAX_CHUNK_TOKENS = 100_000;
+
+// How many times partial summaries may be merged before the final pass
+const MAX_REDUCE_ROUNDS = 3;
+
+export const CHUNK_PROMPT = `
+You are summarizing one section of a longer document. Extract the key points, facts, figures and conclusions of this section as concise bullet points.
+Do not add an introduction or a title. Write in {{LANGUAGE}}.
+`;
+
+export const MERGE_PROMPT = `
+The following are summaries of consecutive sections of a longer document. Merge them into a single set of concise bullet points, removing repetition and keeping the original order.
+Do not add an introduction or a title. Write in {{LANGUAGE}}.
+`;
+
+/**
+ * Rough token estimate (~4 characters per token for most languages).
+ * Good enough for budgeting; the providers don't expose a tokenizer to the browser.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Token budget for a single chunk of article text sent to the given model.
+ */
+export function getChunkBudget(service: LLMService, model: string, prompt = ''): number {
+    const window = service.getContextWindow(model);
+    const budget = window - OUTPUT_RESERVE - PROMPT_RESERVE - estimateTokens(prompt);
+    return Math.max(256, Math.min(budget, MAX_CHUNK_TOKENS));
+}
+
+/**
+ * Splits text into chunks of at most `maxTokens`, preferring paragraph boundaries,
+ * then sentence boundaries, and only cutting mid-sentence as a last resort.
+ */
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+    const maxChars = maxTokens * 4;
+    const paragraphs = text
+        .split(/\n\s*\n/)
+        .map(p => p.trim())
+        .filter(Boolean);
+
+    const pieces: string[] = [];
+    for (const paragraph of paragraphs) {
+        if (paragraph.length <= maxChars) {
+            pieces.push(paragraph);
+            continue;
+        }
+        // Paragraph alone is too big: fall back to sentences
+        const sentences = paragraph.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [paragraph];
+        for (const sentence of sentences) {
+            if (sentence.length <= maxChars) {
+                pieces.push(sentence.trim());
+            } else {
+                for (let i = 0; i < sentence.length; i += maxChars) {
+                    pieces.push(sentence.slice(i, i + maxChars).trim());
+                }
+            }
+        }
+    }
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        const candidate = current ? `${current}\n\n${piece}` : piece;
+        if (candidate.length > maxChars && current) {
+            chunks.push(current);
+            current = piece;
+        } else {
+            current = candidate;
+        }
+    }
+    if (current) chunks.push(current);
+
+    return chunks;
+}
+
+async function collect(stream: AsyncGenerator<string, void, unknown>): Promise<string> {
+    let result = '';
+    for await (const chunk of stream) {
+        result += chunk;
+    }
+    return result;
+}
+
+/**
+ * Map-reduce summarization on top of any LLMService.
+ *
+ * Short texts go straight to `service.summarize`. Longer texts are split into chunks that fit
+ * the model's context window, each chunk is summarized on its own (map), and the partial
+ * summaries are merged (reduce) until they fit into a single final pass, which is streamed
+ * with the caller's original prompt. Only that final pass uses `responseSchema`; the
+ * intermediate notes are plain text.
+ */
+export async function* summarizeChunked(
+    service: LLMService,
+    text: string,
+    options: SummaryOptions,
+    onProgress?: (progress: ChunkProgress) => void
+): AsyncGenerator<string, void, unknown> {
+    const budget = getChunkBudget(service, options.model, options.customPrompt);
+
+    if (estimateTokens(text) <= budget) {
+        yield* service.summarize(text, options);
+        return;
+    }
+
+    const chunks = splitIntoChunks(text, budget);
+    let partials: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+        options.signal?.throwIfAborted();
+        onProgress?.({ phase: 'map', current: i + 1, total: chunks.length });
+        partials.push(await collect(service.summarize(chunks[i], { ...options, customPrompt: CHUNK_PROMPT, responseSchema: undefined })));
+    }
+
+    // Merge partial summaries until they fit into one request
+    let combined = partials.join('\n\n');
+    for (let round = 0; round < MAX_REDUCE_ROUNDS && estimateTokens(combined) > budget; round++) {
+        const groups = splitIntoChunks(combined, budget);
+        if (groups.length >= partials.length) break; // No progress, stop merging
+
+        partials = [];
+        for (let i = 0; i < groups.length; i++) {
+            options.signal?.throwIfAborted();
+            onProgress?.({ phase: 'reduce', current: i + 1, total: groups.length });
+            partials.push(await collect(service.summarize(groups[i], { ...options, customPrompt: MERGE_PROMPT, responseSchema: undefined })));
+        }
+        combined = partials.join('\n\n');
+    }
+
+    if (estimateTokens(combined) > budget) {
+        combined = combined.slice(0, budget * 4);
+    }
+
+    options.signal?.throwIfAborted();
+    onProgress?.({ phase: 'reduce', current: 1, total: 1 });
+    const header = 'The following notes were extracted from consecutive sections of a long article:';
+    yield* service.summarize(`${header}\n\n${combined}`, options);
+}
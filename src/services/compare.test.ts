@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computeWinStats, recordPreference, sideLabel, PREFERENCES_KEY, type PreferenceRecord } from './compare';
+
+const record = (winner: string, loser: string, tie = false): PreferenceRecord => ({
+    id: crypto.randomUUID(),
+    comparedAt: '2026-01-01T00:00:00.000Z',
+    url: 'https://example.com/a',
+    winner,
+    loser,
+    tie: tie || undefined
+});
+
+describe('sideLabel()', () => {
+    it('names the provider, model and preset', () => {
+        expect(sideLabel({ provider: 'openai', model: 'gpt-4o-mini', presetId: '' })).toBe('openai/gpt-4o-mini');
+        expect(sideLabel({ provider: 'openai', model: 'gpt-4o-mini', presetId: 'tldr' }, 'TL;DR')).toBe('openai/gpt-4o-mini · TL;DR');
+    });
+});
+
+describe('computeWinStats()', () => {
+    it('counts wins, losses and ties per side, best first', () => {
+        const stats = computeWinStats([
+            record('a', 'b'),
+            record('a', 'b'),
+            record('b', 'a'),
+            record('a', 'c'),
+            record('b', 'c', true)
+        ]);
+        expect(stats.map(s => s.label)).toEqual(['a', 'b', 'c']);
+        expect(stats[0]).toEqual({ label: 'a', wins: 3, losses: 1, ties: 0, winRate: 0.75 });
+        expect(stats[1]).toMatchObject({ wins: 1, losses: 2, ties: 1 });
+        expect(stats[2]).toMatchObject({ wins: 0, losses: 1, ties: 1, winRate: 0 });
+    });
+
+    it('gives sides with only ties a zero win rate', () => {
+        expect(computeWinStats([record('a', 'b', true)]).map(s => s.winRate)).toEqual([0, 0]);
+    });
+});
+
+describe('recordPreference()', () => {
+    let local: Record<string, unknown>;
+
+    beforeEach(() => {
+        local = {};
+        vi.stubGlobal('chrome', {
+            storage: {
+                local: {
+                    get: async (key: string) => (key in local ? { [key]: local[key] } : {}),
+                    set: async (items: Record<string, unknown>) => { Object.assign(local, items); }
+                }
+            }
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('appends and keeps only the most recent records', async () => {
+        local[PREFERENCES_KEY] = Array.from({ length: 1000 }, (_, i) => record(`old-${i}`, 'x'));
+        await recordPreference(record('new', 'x'));
+        const records = local[PREFERENCES_KEY] as PreferenceRecord[];
+        expect(records).toHaveLength(1000);
+        expect(records[0].winner).toBe('old-1');
+        expect(records[999].winner).toBe('new');
+    });
+});
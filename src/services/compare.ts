@@ -0,0 +1,82 @@
+/**
+ * One column of a comparison: a provider, its model and the prompt preset to use.
+ */
+export interface CompareSide {
+    provider: string;
+    model: string;
+    /** Prompt preset id; empty for the default prompt. */
+    presetId: string;
+}
+
+/**
+ * The outcome of one comparison. Sides are stored as labels so the history stays readable
+ * after presets are renamed or deleted.
+ */
+export interface PreferenceRecord {
+    id: string;
+    comparedAt: string;
+    url: string;
+    winner: string;
+    loser: string;
+    tie?: boolean;
+}
+
+export const PREFERENCES_KEY = 'compare_preferences';
+
+/** Oldest records are dropped beyond this. */
+const MAX_RECORDS = 1000;
+
+export function sideLabel(side: CompareSide, presetName?: string): string {
+    const model = `${side.provider}/${side.model}`;
+    return presetName ? `${model} · ${presetName}` : model;
+}
+
+export async function recordPreference(record: PreferenceRecord): Promise<void> {
+    const result = await chrome.storage.local.get(PREFERENCES_KEY);
+    const records = (result[PREFERENCES_KEY] as PreferenceRecord[]) || [];
+    await chrome.storage.local.set({ [PREFERENCES_KEY]: [...records, record].slice(-MAX_RECORDS) });
+}
+
+export async function clearPreferences(): Promise<void> {
+    await chrome.storage.local.remove(PREFERENCES_KEY);
+}
+
+export interface WinStats {
+    label: string;
+    wins: number;
+    losses: number;
+    ties: number;
+    /** Wins over decided comparisons; ties don't count either way. */
+    winRate: number;
+}
+
+/**
+ * Per-side totals over all comparisons, most winning first.
+ */
+export function computeWinStats(records: PreferenceRecord[]): WinStats[] {
+    const stats = new Map<string, WinStats>();
+    const get = (label: string) => {
+        let entry = stats.get(label);
+        if (!entry) {
+            entry = { label, wins: 0, losses: 0, ties: 0, winRate: 0 };
+            stats.set(label, entry);
+        }
+        return entry;
+    };
+
+    for (const record of records) {
+        if (record.tie) {
+            get(record.winner).ties++;
+            get(record.loser).ties++;
+        } else {
+            get(record.winner).wins++;
+            get(record.loser).losses++;
+        }
+    }
+
+    for (const entry of stats.values()) {
+        const decided = entry.wins + entry.losses;
+        entry.winRate = decided > 0 ? entry.wins / decided : 0;
+    }
+    return [...stats.values()].sort((a, b) => b.winRate - a.winRate || b.wins - a.wins || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { digestInput, isReadableUrl, pickDigestTabs, runWithConcurrency, type DigestItem } from './digest';
+
+const tab = (id: number, url: string, highlighted = false) => ({ id, url, title: `Tab ${id}`, highlighted }) as chrome.tabs.Tab;
+
+describe('isReadableUrl', () => {
+    it('accepts web pages and PDFs only', () => {
+        expect(isReadableUrl('https://example.com/a')).toBe(true);
+        expect(isReadableUrl('file:///home/me/paper.pdf')).toBe(true);
+        expect(isReadableUrl('file:///home/me/notes.txt')).toBe(false);
+        expect(isReadableUrl('chrome://newtab/')).toBe(false);
+        expect(isReadableUrl('chrome-extension://abc/sidepanel.html')).toBe(false);
+    });
+});
+
+describe('pickDigestTabs', () => {
+    it('selects every readable tab of the window', () => {
+        const tabs = pickDigestTabs([tab(1, 'https://a.com/', true), tab(2, 'chrome://settings/'), tab(3, 'https://b.com/')]);
+        expect(tabs).toEqual([
+            { tabId: 1, url: 'https://a.com/', title: 'Tab 1', selected: true },
+            { tabId: 3, url: 'https://b.com/', title: 'Tab 3', selected: true }
+        ]);
+    });
+
+    it('selects only the highlighted tabs when several are', () => {
+        const tabs = pickDigestTabs([tab(1, 'https://a.com/', true), tab(2, 'https://b.com/'), tab(3, 'https://c.com/', true)]);
+        expect(tabs.map(t => t.selected)).toEqual([true, false, true]);
+    });
+});
+
+describe('runWithConcurrency', () => {
+    it('runs every item, never more than the limit at once', async () => {
+        let running = 0;
+        let peak = 0;
+        const done: number[] = [];
+        await runWithConcurrency([1, 2, 3, 4, 5], 2, async n => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise(resolve => setTimeout(resolve, 5 * (6 - n)));
+            running--;
+            done.push(n);
+        });
+        expect(peak).toBe(2);
+        expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('starts no new items once aborted', async () => {
+        const controller = new AbortController();
+        const started: number[] = [];
+        await runWithConcurrency([1, 2, 3], 1, async n => {
+            started.push(n);
+            if (n === 2) controller.abort();
+        }, controller.signal);
+        expect(started).toEqual([1, 2]);
+    });
+});
+
+describe('digestInput', () => {
+    it('numbers the summarized articles with their links', () => {
+        const item = (tabId: number, status: DigestItem['status'], summary: string): DigestItem => ({
+            tab: { tabId, url: `https://example.com/${tabId}`, title: `Tab ${tabId}`, selected: true },
+            status,
+            title: `Article ${tabId}`,
+            summary
+        });
+        const input = digestInput([item(1, 'done', '# One\n\nFirst. '), item(2, 'error', ''), item(3, 'skipped', 'Partial'), item(4, 'done', 'Fourth')]);
+        expect(input).toBe('[1] Article 1\nURL: https://example.com/1\n\n# One\n\nFirst.\n\n---\n\n[2] Article 4\nURL: https://example.com/4\n\nFourth');
+    });
+});
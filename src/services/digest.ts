@@ -0,0 +1,91 @@
+import { isPdfUrl } from './pdf';
+
+/** A tab that can go into a digest. */
+export interface DigestTab {
+    tabId: number;
+    url: string;
+    title: string;
+    /** Whether the tab is included; unselected tabs are listed so they can be added. */
+    selected: boolean;
+}
+
+export type DigestItemStatus = 'queued' | 'extracting' | 'summarizing' | 'done' | 'error' | 'skipped';
+
+/** One tab's part of the digest. */
+export interface DigestItem {
+    tab: DigestTab;
+    status: DigestItemStatus;
+    /** Title of the extracted page, which beats the tab title for PDFs. */
+    title: string;
+    summary: string;
+    error?: string;
+}
+
+/** How many tabs are extracted and summarized at once. */
+export const DIGEST_CONCURRENCY = 3;
+
+export const DIGEST_PROMPT = `
+You are given summaries of articles a reader opened together, each numbered, with its title and URL.
+Write one digest of all of them in {{LANGUAGE}}:
+1. Start with '# ' and a title for the whole set, then two or three sentences on what it covers.
+2. Group related articles under '## ' headings by topic. For each group, say in a few sentences what the articles tell together, where they agree and where they differ.
+3. Under each group, list its articles as bullets: a Markdown link to the article's URL with its title as the text, then what it adds in one sentence.
+Put articles that fit no group under a final '## Other' heading. Every article appears exactly once. Use only the URLs given.
+`;
+
+/** Web pages and PDFs; browser pages, the new tab page and extension pages have nothing to read. */
+export function isReadableUrl(url: string): boolean {
+    return /^https?:\/\//.test(url) || isPdfUrl(url);
+}
+
+/**
+ * The readable tabs of a window. When several tabs are highlighted, the user picked them, so
+ * only those start selected; otherwise all of them do.
+ */
+export function pickDigestTabs(tabs: chrome.tabs.Tab[]): DigestTab[] {
+    const readable = tabs.filter(tab => tab.id !== undefined && isReadableUrl(tab.url || ''));
+    const picked = readable.filter(tab => tab.highlighted).length > 1;
+    return readable.map(tab => ({
+        tabId: tab.id!,
+        url: tab.url!,
+        title: tab.title || tab.url!,
+        selected: !picked || tab.highlighted
+    }));
+}
+
+export async function listDigestTabs(): Promise<DigestTab[]> {
+    return pickDigestTabs(await chrome.tabs.query({ currentWindow: true }));
+}
+
+/** Switches to the window's tab showing `url`, or opens it when that tab was closed. */
+export async function focusTab(url: string): Promise<void> {
+    const tabs = await chrome.tabs.query({ currentWindow: true });
+    const tab = tabs.find(t => t.url === url);
+    if (tab?.id !== undefined) {
+        await chrome.tabs.update(tab.id, { active: true });
+    } else {
+        await chrome.tabs.create({ url });
+    }
+}
+
+/**
+ * Runs `worker` over the items, at most `limit` at a time, in order. Workers must handle their
+ * own errors; once `signal` aborts, no new item starts.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> {
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length && !signal?.aborted) {
+            await worker(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+}
+
+/** The summarized items, numbered, as the text the digest is written from. */
+export function digestInput(items: DigestItem[]): string {
+    return items
+        .filter(item => item.status === 'done' && item.summary)
+        .map((item, i) => `[${i + 1}] ${item.title}\nURL: ${item.tab.url}\n\n${item.summary.trim()}`)
+        .join('\n\n---\n\n');
+}
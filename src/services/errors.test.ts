@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifyError, describeError, parseRetryAfter, ProviderError, responseError, withRetry } from './errors';
+import { collect } from '@/test/streams';
+
+describe('classifyError()', () => {
+    it.each<[string, number | undefined, string, string, string]>([
+        ['OpenAI bad key', 401, 'invalid_request_error', 'Incorrect API key provided', 'invalid_key'],
+        ['Gemini bad key', 400, 'INVALID_ARGUMENT', 'API key not valid. Please pass a valid API key.', 'invalid_key'],
+        ['OpenAI empty balance', 429, 'insufficient_quota', 'You exceeded your current quota', 'quota_exhausted'],
+        ['Anthropic credit', 400, 'invalid_request_error', 'Your credit balance is too low', 'quota_exhausted'],
+        ['OpenAI rate limit', 429, 'requests', 'Rate limit reached for gpt-4o', 'rate_limited'],
+        ['Gemini rate limit', 429, 'RESOURCE_EXHAUSTED', 'You exceeded your current quota', 'rate_limited'],
+        ['OpenAI context', 400, 'context_length_exceeded', "This model's maximum context length is 128000 tokens", 'context_too_long'],
+        ['Anthropic context', 400, 'invalid_request_error', 'prompt is too long: 210000 tokens > 200000 maximum', 'context_too_long'],
+        ['OpenAI model', 404, 'invalid_request_error', 'The model `gpt-5` does not exist', 'model_not_found'],
+        ['Gemini model', 404, 'NOT_FOUND', 'models/gemini-9 is not found', 'model_not_found'],
+        ['Anthropic overload', 529, 'overloaded_error', 'Overloaded', 'overloaded'],
+        ['Anthropic stream overload', undefined, 'overloaded_error', 'Overloaded', 'overloaded'],
+        ['Gateway error', 503, 'unknown', 'Service Unavailable', 'overloaded'],
+        ['Bad request', 400, 'invalid_request_error', 'messages: field required', 'unknown'],
+    ])('%s', (_name, status, type, message, kind) => {
+        expect(classifyError(status, type, message)).toBe(kind);
+    });
+});
+
+describe('parseRetryAfter()', () => {
+    it('reads seconds and HTTP dates', () => {
+        const now = Date.parse('2026-01-01T00:00:00Z');
+        expect(parseRetryAfter('7', now)).toBe(7000);
+        expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30_000);
+        expect(parseRetryAfter('Wed, 31 Dec 2025 00:00:00 GMT', now)).toBe(0);
+        expect(parseRetryAfter(null)).toBeUndefined();
+        expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+});
+
+describe('responseError()', () => {
+    it('pulls the message, type and Retry-After from the response', async () => {
+        const res = new Response(JSON.stringify({ error: { type: 'rate_limit_error', message: 'Slow down' } }), {
+            status: 429,
+            headers: { 'retry-after': '3' }
+        });
+        const error = await responseError('Anthropic', res);
+        expect(error.message).toBe('Anthropic: Slow down (HTTP 429)');
+        expect(error).toMatchObject({ kind: 'rate_limited', type: 'rate_limit_error', status: 429, retryAfterMs: 3000 });
+    });
+
+    it('reads the array-wrapped body Gemini sometimes sends', async () => {
+        const res = new Response(JSON.stringify([{ error: { code: 503, status: 'UNAVAILABLE', message: 'The model is overloaded.' } }]), { status: 503 });
+        expect(await responseError('Gemini', res)).toMatchObject({ kind: 'overloaded', type: 'UNAVAILABLE' });
+    });
+
+    it('keeps non-JSON bodies as the message', async () => {
+        const error = await responseError('Ollama', new Response('upstream timed out', { status: 504 }));
+        expect(error.message).toBe('Ollama: upstream timed out (HTTP 504)');
+    });
+});
+
+describe('withRetry()', () => {
+    const overloaded = () => new ProviderError('Anthropic', 'Overloaded', { type: 'overloaded_error' });
+
+    /** A request that fails with the given errors, in order, then streams "ok". */
+    function flaky(errors: Error[]) {
+        let calls = 0;
+        const start = vi.fn(async function* () {
+            const error = errors[calls++];
+            if (error) throw error;
+            yield 'ok';
+        });
+        return start;
+    }
+
+    it('retries transient errors with growing delays', async () => {
+        const sleep = vi.fn(async () => {});
+        const onRetry = vi.fn();
+        const start = flaky([overloaded(), overloaded()]);
+        expect(await collect(withRetry(start, { sleep, onRetry, baseDelayMs: 100 }))).toBe('ok');
+        expect(start).toHaveBeenCalledTimes(3);
+        const [first, second] = sleep.mock.calls.map(call => (call as unknown as [number])[0]);
+        expect(first).toBeGreaterThanOrEqual(100);
+        expect(second).toBeGreaterThanOrEqual(200);
+        expect(onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it('waits for Retry-After when given', async () => {
+        const sleep = vi.fn(async () => {});
+        const limited = new ProviderError('OpenAI', 'Slow down', { status: 429, retryAfterMs: 5000 });
+        await collect(withRetry(flaky([limited]), { sleep }));
+        expect(sleep).toHaveBeenCalledWith(5000, undefined);
+    });
+
+    it('gives up after the last retry', async () => {
+        const start = flaky([overloaded(), overloaded(), overloaded()]);
+        await expect(collect(withRetry(start, { sleep: async () => {}, retries: 2 }))).rejects.toThrow('Overloaded');
+        expect(start).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not wait longer than the maximum delay', async () => {
+        const limited = new ProviderError('OpenAI', 'Slow down', { status: 429, retryAfterMs: 3_600_000 });
+        const start = flaky([limited]);
+        await expect(collect(withRetry(start, { sleep: async () => {} }))).rejects.toBe(limited);
+        expect(start).toHaveBeenCalledOnce();
+    });
+
+    it('does not retry permanent errors', async () => {
+        const start = flaky([new ProviderError('OpenAI', 'Incorrect API key provided', { status: 401 })]);
+        await expect(collect(withRetry(start, { sleep: async () => {} }))).rejects.toMatchObject({ kind: 'invalid_key' });
+        expect(start).toHaveBeenCalledOnce();
+    });
+
+    it('does not retry once text was streamed', async () => {
+        const start = vi.fn(async function* () {
+            yield 'partial';
+            throw overloaded();
+        });
+        await expect(collect(withRetry(start, { sleep: async () => {} }))).rejects.toThrow('Overloaded');
+        expect(start).toHaveBeenCalledOnce();
+    });
+
+    it('stops waiting when aborted', async () => {
+        const controller = new AbortController();
+        const run = collect(withRetry(flaky([overloaded()]), { signal: controller.signal, baseDelayMs: 60_000, maxDelayMs: 120_000 }));
+        controller.abort();
+        await expect(run).rejects.toBeDefined();
+    });
+});
+
+describe('describeError()', () => {
+    it('suggests a fix per kind', () => {
+        expect(describeError(new ProviderError('OpenAI', 'x', { status: 401 }))).toMatchObject({ openSettings: true });
+        expect(describeError(new ProviderError('Gemini', 'x', { kind: 'context_too_long' })).fix).toMatch(/larger context/);
+        expect(describeError(new ProviderError('OpenAI', 'x', { status: 429, retryAfterMs: 90_000 })).fix).toBe('Try again in 2 min.');
+    });
+
+    it('passes other errors through', () => {
+        expect(describeError(new Error('No active tab'))).toEqual({ message: 'No active tab' });
+    });
+});
@@ -0,0 +1,216 @@
+/**
+ * What went wrong, independent of the provider. Decides whether a request is retried and
+ * which fix the side panel suggests.
+ */
+export type ProviderErrorKind =
+    | 'invalid_key'
+    | 'rate_limited'
+    | 'quota_exhausted'
+    | 'context_too_long'
+    | 'model_not_found'
+    | 'network'
+    | 'overloaded'
+    | 'unknown';
+
+/**
+ * An error reported by an LLM provider, either as an HTTP error or as an error event inside a stream.
+ */
+export class ProviderError extends Error {
+    provider: string;
+    kind: ProviderErrorKind;
+    /** Provider-specific error type, e.g. `overloaded_error` or `RESOURCE_EXHAUSTED`. */
+    type: string;
+    status?: number;
+    /** From the `Retry-After` header, when the provider sent one. */
+    retryAfterMs?: number;
+
+    constructor(provider: string, message: string, options: { type?: string; status?: number; kind?: ProviderErrorKind; retryAfterMs?: number } = {}) {
+        super(`${provider}: ${message}`);
+        this.name = 'ProviderError';
+        this.provider = provider;
+        this.type = options.type || 'unknown';
+        this.status = options.status;
+        this.kind = options.kind || classifyError(options.status, this.type, message);
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    /** Transient failures that are worth trying again as is. */
+    get retryable(): boolean {
+        return this.kind === 'rate_limited' || this.kind === 'overloaded';
+    }
+}
+
+/**
+ * Maps an HTTP status, provider error type and message to a kind. Providers disagree on codes
+ * (Gemini reports a bad key as 400, OpenAI an empty balance as 429), so the type and message win over the status.
+ */
+export function classifyError(status: number | undefined, type: string, message: string): ProviderErrorKind {
+    if (/authentication|invalid_api_key|permission|API_KEY_INVALID/i.test(type) || /api key|x-api-key|unauthori[sz]ed/i.test(message) || status === 401 || status === 403) {
+        return 'invalid_key';
+    }
+    if (/context_length|request_too_large/i.test(type) || /context (length|window)|too long|too many tokens|maximum context|exceeds the (maximum|limit)/i.test(message) || status === 413) {
+        return 'context_too_long';
+    }
+    if (/model_not_found|not_found_error|NOT_FOUND/i.test(type) || /model .*(not found|does not exist)|not supported for/i.test(message) || status === 404) {
+        return 'model_not_found';
+    }
+    // Gemini words per-minute limits as quota too, so its type is checked first
+    if (/rate_limit|RESOURCE_EXHAUSTED/i.test(type)) {
+        return 'rate_limited';
+    }
+    if (/insufficient_quota|billing/i.test(type) || /quota|billing|credit balance/i.test(message) || status === 402) {
+        return 'quota_exhausted';
+    }
+    if (status === 429) {
+        return 'rate_limited';
+    }
+    if (/overloaded|UNAVAILABLE|server_error|api_error|INTERNAL/i.test(type) || (status !== undefined && status >= 500)) {
+        return 'overloaded';
+    }
+    return 'unknown';
+}
+
+/**
+ * Milliseconds to wait from a `Retry-After` header (delay in seconds, or an HTTP date).
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Builds the error for a failed response, pulling the message and type out of the JSON body
+ * all three APIs send (`{ error: { message, type | status } }`).
+ */
+export async function responseError(provider: string, res: Response): Promise<ProviderError> {
+    const text = await res.text().catch(() => '');
+    let message = text.slice(0, 500) || res.statusText;
+    let type: string | undefined;
+    try {
+        const body = JSON.parse(text);
+        const error = Array.isArray(body) ? body[0]?.error : body.error;
+        if (typeof error?.message === 'string') message = error.message;
+        type = error?.type || error?.status || error?.code || undefined;
+    } catch {
+        // Not JSON (proxies, local servers): keep the raw text
+    }
+    return new ProviderError(provider, `${message} (HTTP ${res.status})`, {
+        type: type === undefined ? undefined : String(type),
+        status: res.status,
+        retryAfterMs: parseRetryAfter(res.headers.get('retry-after'))
+    });
+}
+
+/**
+ * `fetch` that turns connection failures into a `network` ProviderError. Aborts are rethrown untouched.
+ */
+export async function providerFetch(provider: string, input: string, init: RequestInit): Promise<Response> {
+    try {
+        return await fetch(input, init);
+    } catch (e) {
+        if (init.signal?.aborted) throw e;
+        throw new ProviderError(provider, `Could not reach the server (${e instanceof Error ? e.message : 'network error'})`, { kind: 'network' });
+    }
+}
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    /** Called before waiting to retry, e.g. to show "retrying in 4s". */
+    onRetry?: (error: ProviderError, delayMs: number, attempt: number) => void;
+    retries?: number;
+    baseDelayMs?: number;
+    /** A longer `Retry-After` than this is not waited for; the error is raised instead. */
+    maxDelayMs?: number;
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs a streaming request, starting it over on transient errors with exponential backoff
+ * (or the server's `Retry-After`). Only errors raised before the first chunk are retried,
+ * since the caller has already shown what came after it.
+ */
+export async function* withRetry(
+    start: () => AsyncGenerator<string, void, unknown>,
+    options: RetryOptions = {}
+): AsyncGenerator<string, void, unknown> {
+    const { signal, onRetry, retries = 3, baseDelayMs = 1000, maxDelayMs = 30_000, sleep = abortableSleep } = options;
+    for (let attempt = 0; ; attempt++) {
+        let started = false;
+        try {
+            for await (const chunk of start()) {
+                started = true;
+                yield chunk;
+            }
+            return;
+        } catch (e) {
+            if (started || signal?.aborted || !(e instanceof ProviderError) || !e.retryable || attempt >= retries) throw e;
+            const backoff = baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25);
+            const delay = e.retryAfterMs ?? backoff;
+            if (delay > maxDelayMs) throw e;
+            onRetry?.(e, delay, attempt + 1);
+            await sleep(delay, signal);
+        }
+    }
+}
+
+export interface ErrorHelp {
+    message: string;
+    /** What the user can do about it. */
+    fix?: string;
+    /** The fix happens in settings, so the panel offers a button there. */
+    openSettings?: boolean;
+}
+
+function formatWait(ms: number): string {
+    const seconds = Math.ceil(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`;
+}
+
+/**
+ * A user-facing description of any error thrown while summarizing or chatting.
+ */
+export function describeError(e: unknown): ErrorHelp {
+    if (!(e instanceof ProviderError)) {
+        return { message: e instanceof Error ? e.message : 'Unknown error' };
+    }
+    const name = e.provider;
+    switch (e.kind) {
+        case 'invalid_key':
+            return { message: `${name} rejected the API key.`, fix: 'Check or replace the key in settings.', openSettings: true };
+        case 'rate_limited':
+            return {
+                message: `${name} is rate limiting requests.`,
+                fix: e.retryAfterMs ? `Try again in ${formatWait(e.retryAfterMs)}.` : 'Wait a moment and try again, or switch to another provider.'
+            };
+        case 'quota_exhausted':
+            return { message: `Your ${name} quota or credit is used up.`, fix: "Add credit in the provider's billing page, or use another provider.", openSettings: true };
+        case 'context_too_long':
+            return { message: `The article is too long for this ${name} model.`, fix: 'Pick a model with a larger context window.' };
+        case 'model_not_found':
+            return { message: `${name} does not offer the selected model to this key.`, fix: 'Pick another model, or refresh the model list in settings.', openSettings: true };
+        case 'network':
+            return { message: `Could not reach ${name}.`, fix: 'Check your connection. For local servers, make sure they are running and allow requests from extensions (CORS).' };
+        case 'overloaded':
+            return { message: `${name} is overloaded or having problems.`, fix: 'Try again in a few minutes, or switch to another provider.' };
+        default:
+            return { message: e.message };
+    }
+}
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { extractContent, findMainContent, nextExtractionMethod, visibleText } from './extraction';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const paragraph = (n: number) =>
+    `<p>Paragraph ${n} explains how a sourdough starter is fed with flour and water every day, how long it rises, and what the bubbles say about its health.</p>`;
+
+const NAV = '<nav><a href="/">Home</a> <a href="/docs">Docs</a> <a href="/blog">Blog</a></nav>';
+
+describe('extractContent', () => {
+    it('uses Readability for articles', () => {
+        const doc = parse(`<html><head><title>Starters</title></head><body>${NAV}<article><h1>Starters</h1>${[1, 2, 3, 4, 5, 6].map(paragraph).join('')}</article></body></html>`);
+        const result = extractContent(doc);
+        expect(result.method).toBe('readability');
+        expect(result.content).toContain('Paragraph 6');
+        expect(result.content).not.toContain('Blog');
+    });
+
+    it('falls back to the main content when Readability declines', () => {
+        const doc = parse(`<html><head><title>Dashboard</title></head><body>${NAV}<main><div>Open tickets: 14</div><div>${'Ticket 42 is waiting for a reply from the billing team about the refund. '.repeat(4)}</div></main><footer>© 2024</footer></body></html>`);
+        const result = extractContent(doc);
+        expect(result).toMatchObject({ method: 'main-content', title: 'Dashboard' });
+        expect(result.content).toMatch(/^Open tickets: 14\nTicket 42/);
+        expect(result.content).not.toContain('Home');
+    });
+
+    it('ends with the visible text of the page', () => {
+        const doc = parse(`<html><body>${NAV}<div>Short status page</div></body></html>`);
+        expect(extractContent(doc)).toMatchObject({ method: 'visible-text', content: 'Short status page' });
+    });
+
+    it('starts from the requested method', () => {
+        const doc = parse(`<html><body><main>${[1, 2, 3, 4, 5, 6].map(paragraph).join('')}</main><aside>Related posts</aside></body></html>`);
+        expect(extractContent(doc, 'main-content').method).toBe('main-content');
+        const all = extractContent(doc, 'visible-text');
+        expect(all.method).toBe('visible-text');
+        expect(all.content).not.toContain('Related posts');
+    });
+
+    it('takes the elements a site rule selects, without their excluded parts', () => {
+        const doc = parse(`<body><div class="wiki-page"><p>Deploys run every Tuesday.</p><div class="edit-history">Edited by Sam</div></div><div class="wiki-page"><p>Rollbacks need approval.</p></div></body>`);
+        const result = extractContent(doc, undefined, { include: '.wiki-page', exclude: '.edit-history' });
+        expect(result).toMatchObject({ method: 'site-rule', content: 'Deploys run every Tuesday.\n\nRollbacks need approval.' });
+    });
+
+    it('applies exclusions before Readability when a rule selects no content', () => {
+        const note = '<p class="editor-note">Editor note: this recipe was updated after readers reported that the starter needed more time in cold kitchens.</p>';
+        const doc = parse(`<html><body><article>${[1, 2, 3].map(paragraph).join('')}${note}${[4, 5, 6].map(paragraph).join('')}</article></body></html>`);
+        expect(extractContent(doc).content).toContain('Editor note');
+        const result = extractContent(doc, undefined, { include: '', exclude: '.editor-note' });
+        expect(result.method).toBe('readability');
+        expect(result.content).not.toContain('Editor note');
+    });
+
+    it('fails on pages without text', () => {
+        expect(() => extractContent(parse('<html><body><script>app()</script></body></html>'))).toThrow('No text found');
+    });
+});
+
+describe('findMainContent', () => {
+    it('takes the container of several articles, as in forum threads', () => {
+        const posts = [1, 2, 3].map(n => `<article>${paragraph(n)}</article>`).join('');
+        const doc = parse(`<body>${NAV}<div id="thread">${posts}</div></body>`);
+        expect(findMainContent(doc)?.id).toBe('thread');
+    });
+
+    it('descends to the element holding most of the non-link text', () => {
+        const links = Array.from({ length: 20 }, (_, i) => `<a href="/p/${i}">Popular post number ${i}</a>`).join('');
+        const doc = parse(`<body><div id="page"><div id="menu">${links}</div><div id="docs"><div id="text">${[1, 2, 3].map(paragraph).join('')}</div></div></div></body>`);
+        expect(findMainContent(doc)?.id).toBe('text');
+    });
+});
+
+describe('visibleText', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('separates blocks and table cells and skips hidden elements', () => {
+        document.body.innerHTML = `
+            <h2>Plan</h2>
+            <table><tr><td>Basic</td><td>$5</td></tr><tr><td>Pro</td><td>$9</td></tr></table>
+            <p style="display: none">Hidden note</p>
+            <p hidden>Also hidden</p>
+            <button>Subscribe</button>`;
+        expect(visibleText(document.body)).toBe('Plan\nBasic $5\nPro $9');
+    });
+});
+
+describe('nextExtractionMethod', () => {
+    it('steps through the stages in order', () => {
+        expect(nextExtractionMethod('site-rule')).toBe('readability');
+        expect(nextExtractionMethod('readability')).toBe('main-content');
+        expect(nextExtractionMethod('main-content')).toBe('visible-text');
+        expect(nextExtractionMethod('visible-text')).toBeNull();
+    });
+});
@@ -0,0 +1,167 @@
+import { isProbablyReaderable, Readability } from '@mozilla/readability';
+import { type SiteRule } from './site_rules';
+
+/**
+ * How the text of a page was found, in the order they are tried. A site rule's selectors come
+ * first where one applies; Readability handles articles; dashboards, docs sites, forum threads
+ * and single-page apps usually fail its check and fall through to the other two.
+ */
+export type ExtractionMethod = 'site-rule' | 'readability' | 'main-content' | 'visible-text';
+
+export const EXTRACTION_METHODS: ExtractionMethod[] = ['site-rule', 'readability', 'main-content', 'visible-text'];
+
+/** The selectors of the site rule matching the page. */
+export type ExtractionRule = Pick<SiteRule, 'include' | 'exclude'>;
+
+export const EXTRACTION_LABELS: Record<ExtractionMethod, string> = {
+    'site-rule': 'Site rule',
+    'readability': 'Reader mode',
+    'main-content': 'Main content',
+    'visible-text': 'Visible page text'
+};
+
+export interface ExtractedContent {
+    content: string;
+    title: string;
+    method: ExtractionMethod;
+}
+
+/** Shorter results are treated as a failed stage, except for the last one. */
+const MIN_CONTENT_LENGTH = 200;
+
+// Never part of the content, whatever the stage
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'BUTTON', 'SELECT', 'INPUT', 'TEXTAREA']);
+// Page chrome around the content
+const BOILERPLATE_TAGS = new Set(['NAV', 'HEADER', 'FOOTER', 'ASIDE', 'FORM', 'DIALOG']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'menu', 'menubar', 'dialog']);
+const BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'BR', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'H1', 'H2', 'H3',
+    'H4', 'H5', 'H6', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'TR', 'UL'
+]);
+
+export function nextExtractionMethod(method: ExtractionMethod): ExtractionMethod | null {
+    return EXTRACTION_METHODS[EXTRACTION_METHODS.indexOf(method) + 1] || null;
+}
+
+function isHidden(element: Element): boolean {
+    if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') return true;
+    const view = element.ownerDocument.defaultView;
+    if (!view) return false;
+    const style = view.getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden';
+}
+
+function isBoilerplate(element: Element): boolean {
+    return BOILERPLATE_TAGS.has(element.tagName) || BOILERPLATE_ROLES.has(element.getAttribute('role') || '');
+}
+
+/**
+ * The text of an element with line breaks between blocks, leaving out hidden elements,
+ * controls, page chrome and anything matching `exclude`. The document is only read, never modified.
+ */
+export function visibleText(root: Element, exclude = ''): string {
+    const parts: string[] = [];
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            parts.push(node.textContent || '');
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const element = node as Element;
+        const tag = element.tagName.toUpperCase();
+        if (SKIPPED_TAGS.has(tag) || (element !== root && isBoilerplate(element)) || isHidden(element)) return;
+        if (exclude && element.matches(exclude)) return;
+        const block = BLOCK_TAGS.has(tag);
+        if (block) parts.push('\n');
+        for (const child of element.childNodes) walk(child);
+        if (block) parts.push('\n');
+        else if (tag === 'TD' || tag === 'TH') parts.push(' ');
+    };
+    walk(root);
+    return parts.join('')
+        .replace(/[^\S\n]+/g, ' ')
+        .replace(/ *\n\s*/g, '\n')
+        .trim();
+}
+
+// Text outside of links, which is what separates content from menus and link lists
+function contentLength(element: Element): number {
+    const text = element.textContent?.replace(/\s+/g, ' ').length || 0;
+    let linkText = 0;
+    for (const link of element.querySelectorAll('a')) linkText += link.textContent?.replace(/\s+/g, ' ').length || 0;
+    return Math.max(0, text - linkText);
+}
+
+/**
+ * Guesses the element holding the content: the page's `<main>` landmark, its `<article>`
+ * (or the container of several, as in forum threads), or else the smallest element that
+ * still holds most of the non-link text of the page.
+ */
+export function findMainContent(doc: Document): Element | null {
+    const body = doc.body;
+    if (!body) return null;
+
+    const main = doc.querySelector('main, [role="main"]');
+    if (main && contentLength(main) >= MIN_CONTENT_LENGTH) return main;
+
+    const articles = [...doc.querySelectorAll('article')].filter(a => !isBoilerplate(a));
+    if (articles.length === 1 && contentLength(articles[0]) >= MIN_CONTENT_LENGTH) return articles[0];
+    if (articles.length > 1) {
+        const holdsAll = (element: Element) => articles.every(a => element.contains(a));
+        let container = articles[0].parentElement;
+        while (container && !holdsAll(container)) container = container.parentElement;
+        if (container && container !== body && contentLength(container) >= MIN_CONTENT_LENGTH) return container;
+    }
+
+    // Descend while a single child holds most of the content
+    let current: Element = body;
+    for (;;) {
+        const total = contentLength(current);
+        const child = [...current.children]
+            .filter(c => !SKIPPED_TAGS.has(c.tagName.toUpperCase()) && !isBoilerplate(c))
+            .find(c => contentLength(c) >= total * 0.7);
+        if (!child) break;
+        current = child;
+    }
+    return current === body ? null : current;
+}
+
+// The outermost elements matching a selector; nested matches are part of their ancestor's text
+function outermost(doc: Document, selector: string): Element[] {
+    const matches = [...doc.querySelectorAll(selector)];
+    return matches.filter(element => !matches.some(other => other !== element && other.contains(element)));
+}
+
+function extractWith(method: ExtractionMethod, doc: Document, rule?: ExtractionRule): Omit<ExtractedContent, 'method'> | null {
+    const exclude = rule?.exclude.trim() || '';
+    if (method === 'site-rule') {
+        if (!rule?.include.trim()) return null;
+        const content = outermost(doc, rule.include).map(element => visibleText(element, exclude)).filter(Boolean).join('\n\n');
+        return { content, title: doc.title };
+    }
+    if (method === 'readability') {
+        // Readability modifies the document it parses
+        const clone = doc.cloneNode(true) as Document;
+        if (exclude) clone.querySelectorAll(exclude).forEach(element => element.remove());
+        if (!isProbablyReaderable(clone)) return null;
+        const article = new Readability(clone).parse();
+        return article?.textContent ? { content: article.textContent.trim(), title: article.title || doc.title } : null;
+    }
+    const root = method === 'main-content' ? findMainContent(doc) : doc.body;
+    return root ? { content: visibleText(root, exclude), title: doc.title } : null;
+}
+
+/**
+ * Runs the extraction stages from `from` on, returning the first that finds enough text.
+ * Whatever a site rule's `include` selects is taken as is, however short.
+ */
+export function extractContent(doc: Document, from: ExtractionMethod = EXTRACTION_METHODS[0], rule?: ExtractionRule): ExtractedContent {
+    const methods = EXTRACTION_METHODS.slice(EXTRACTION_METHODS.indexOf(from));
+    for (const method of methods) {
+        const result = extractWith(method, doc, rule);
+        const isLast = method === methods[methods.length - 1];
+        const minLength = method === 'site-rule' || isLast ? 1 : MIN_CONTENT_LENGTH;
+        if (result && result.content.length >= minLength) return { ...result, method };
+    }
+    throw new Error('No text found on this page');
+}
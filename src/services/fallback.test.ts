@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildFallbackChain, canFallBack, streamWithFallback, type FallbackEntry } from './fallback';
+import { ProviderError } from './errors';
+import { collect } from '@/test/streams';
+
+const anthropic: FallbackEntry = { provider: 'anthropic', model: 'claude-3-5-haiku-20241022' };
+const openai: FallbackEntry = { provider: 'openai', model: 'gpt-4o-mini' };
+const gemini: FallbackEntry = { provider: 'gemini', model: 'gemini-1.5-flash' };
+const chrome: FallbackEntry = { provider: 'chrome', model: 'gemini-nano' };
+
+describe('canFallBack()', () => {
+    it('accepts errors another provider may not have', () => {
+        expect(canFallBack(new ProviderError('Anthropic', 'Overloaded', { type: 'overloaded_error' }))).toBe(true);
+        expect(canFallBack(new ProviderError('OpenAI', 'x', { type: 'insufficient_quota', status: 429 }))).toBe(true);
+        expect(canFallBack(new ProviderError('Ollama', 'x', { kind: 'network' }))).toBe(true);
+    });
+
+    it('rejects errors that would fail everywhere or are not provider errors', () => {
+        expect(canFallBack(new ProviderError('OpenAI', 'bad request', { status: 400 }))).toBe(false);
+        expect(canFallBack(new Error('No active tab'))).toBe(false);
+    });
+});
+
+describe('buildFallbackChain()', () => {
+    it('puts the selected provider first and skips duplicates and unusable providers', () => {
+        const usable = (provider: string) => provider !== 'gemini';
+        expect(buildFallbackChain(anthropic, [openai, anthropic, gemini, chrome], usable)).toEqual([anthropic, openai, chrome]);
+    });
+
+    it('skips entries without a model', () => {
+        expect(buildFallbackChain(anthropic, [{ provider: 'openai', model: '' }], () => true)).toEqual([anthropic]);
+    });
+});
+
+describe('streamWithFallback()', () => {
+    const overloaded = () => new ProviderError('Anthropic', 'Overloaded', { type: 'overloaded_error' });
+
+    /** A stream that fails before producing anything. */
+    const failing = (error: () => Error) => vi.fn(async function* () {
+        const e = error();
+        if (e) throw e;
+        yield '';
+    });
+
+    it('moves to the next provider on a fallback error', async () => {
+        const onFallback = vi.fn();
+        const start = vi.fn(async function* (entry: FallbackEntry) {
+            if (entry !== gemini) throw overloaded();
+            yield 'from gemini';
+        });
+        expect(await collect(streamWithFallback([anthropic, openai, gemini], start, { onFallback }))).toBe('from gemini');
+        expect(start).toHaveBeenCalledTimes(3);
+        expect(onFallback).toHaveBeenNthCalledWith(1, anthropic, openai, expect.any(ProviderError));
+        expect(onFallback).toHaveBeenNthCalledWith(2, openai, gemini, expect.any(ProviderError));
+    });
+
+    it('raises the last error when every provider fails', async () => {
+        const start = failing(overloaded);
+        await expect(collect(streamWithFallback([anthropic, openai], start))).rejects.toThrow('Overloaded');
+    });
+
+    it('does not restart once text was streamed', async () => {
+        const start = vi.fn(async function* () {
+            yield 'partial';
+            throw overloaded();
+        });
+        await expect(collect(streamWithFallback([anthropic, openai], start))).rejects.toThrow('Overloaded');
+        expect(start).toHaveBeenCalledOnce();
+    });
+
+    it('does not fall back on other errors or after an abort', async () => {
+        const start = failing(() => new ProviderError('Anthropic', 'bad request', { status: 400 }));
+        await expect(collect(streamWithFallback([anthropic, openai], start))).rejects.toThrow('bad request');
+        expect(start).toHaveBeenCalledOnce();
+
+        const controller = new AbortController();
+        controller.abort();
+        const aborted = failing(overloaded);
+        await expect(collect(streamWithFallback([anthropic, openai], aborted, { signal: controller.signal }))).rejects.toThrow();
+        expect(aborted).toHaveBeenCalledOnce();
+    });
+});
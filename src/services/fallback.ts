@@ -0,0 +1,58 @@
+import { ProviderError } from './errors';
+
+/** A provider and the model to use with it. */
+export interface FallbackEntry {
+    provider: string;
+    model: string;
+}
+
+/**
+ * Errors another provider may not have: retries are exhausted (rate limits, overload),
+ * the quota is gone or the server can't be reached. Bad requests would fail everywhere.
+ */
+export function canFallBack(error: unknown): boolean {
+    return error instanceof ProviderError
+        && (error.retryable || error.kind === 'quota_exhausted' || error.kind === 'network');
+}
+
+/**
+ * The providers to try, in order: the selected one, then the configured fallbacks that are usable
+ * right now (key set, under their spending cap). Each provider appears once.
+ */
+export function buildFallbackChain(
+    primary: FallbackEntry,
+    fallbacks: FallbackEntry[],
+    isUsable: (provider: string) => boolean
+): FallbackEntry[] {
+    const chain = [primary];
+    for (const entry of fallbacks) {
+        if (!entry.model || chain.some(e => e.provider === entry.provider) || !isUsable(entry.provider)) continue;
+        chain.push(entry);
+    }
+    return chain;
+}
+
+/**
+ * Streams from the first entry, moving to the next one when it fails with an error another
+ * provider may not have. Once text has been streamed the error is raised instead, so the
+ * reader never sees two answers spliced together.
+ */
+export async function* streamWithFallback<T>(
+    chain: T[],
+    start: (entry: T) => AsyncGenerator<string, void, unknown>,
+    options: { signal?: AbortSignal; onFallback?: (from: T, to: T, error: unknown) => void } = {}
+): AsyncGenerator<string, void, unknown> {
+    for (let i = 0; i < chain.length; i++) {
+        let started = false;
+        try {
+            for await (const chunk of start(chain[i])) {
+                started = true;
+                yield chunk;
+            }
+            return;
+        } catch (e) {
+            if (started || options.signal?.aborted || i === chain.length - 1 || !canFallBack(e)) throw e;
+            options.onFallback?.(chain[i], chain[i + 1], e);
+        }
+    }
+}
@@ -1,4 +1,32 @@
-import { type LLMService, type SummaryOptions, constructPrompt } from './llm';
+import { type LLMService, type SummaryOptions, type ChatMessage, type ChatOptions, type JsonSchema, type TokenUsage, constructPrompt } from './llm';
+import { ProviderError, providerFetch, responseError, withRetry } from './errors';
+import { parseSSE, parseEventData } from './sse';
+
+// The parts of a streamed GenerateContentResponse we read
+interface GenerateContentResponse {
+    candidates?: { content?: { parts?: { text?: string }[] } }[];
+    promptFeedback?: { blockReason?: string };
+    /** Running totals; the last chunk has the final counts. */
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+    error?: { code?: number; message?: string; status?: string };
+}
+
+/**
+ * Gemini's `responseSchema` is an OpenAPI subset: it has no `additionalProperties`
+ * and orders fields by `propertyOrdering` instead of declaration order.
+ */
+export function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+    const result: Record<string, unknown> = { type: schema.type };
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.required) result.required = schema.required;
+    if (schema.items) result.items = toGeminiSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]));
+        result.propertyOrdering = Object.keys(schema.properties);
+    }
+    return result;
+}
 
 export const Gemini: LLMService = {
     name: 'Gemini',
@@ -22,104 +50,64 @@ export const Gemini: LLMService = {
         }
     },
 
+    getContextWindow(model: string): number {
+        if (model.startsWith('gemini-1.0') || model === 'gemini-pro') return 32_000;
+        return 1_000_000;
+    },
+
     async *summarize(text: string, options: SummaryOptions): AsyncGenerator<string, void, unknown> {
         const prompt = constructPrompt(options, text);
-        const model = options.model || 'gemini-1.5-pro';
-        const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${options.apiKey}`;
+        yield* Gemini.chat([{ role: 'user', content: prompt }], options);
+    },
 
-        const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-                contents: [{ parts: [{ text: prompt }] }]
-            })
-        });
+    chat(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string, void, unknown> {
+        return withRetry(() => streamGenerateContent(messages, options), options);
+    }
+};
 
-        if (!res.ok) {
-            const err = await res.text();
-            throw new Error(`Gemini API Error: ${res.status} ${err}`);
+async function* streamGenerateContent(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string, void, unknown> {
+    const model = options.model || 'gemini-1.5-pro';
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${options.apiKey}`;
+
+    const res = await providerFetch('Gemini', url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        signal: options.signal,
+        body: JSON.stringify({
+            ...(options.system ? { systemInstruction: { parts: [{ text: options.system }] } } : {}),
+            // Gemini calls the assistant role "model"
+            contents: messages.map(m => ({
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: m.content }]
+            })),
+            ...(options.responseSchema ? {
+                generationConfig: { responseMimeType: 'application/json', responseSchema: toGeminiSchema(options.responseSchema) }
+            } : {})
+        })
+    });
+
+    if (!res.ok) throw await responseError('Gemini', res);
+
+    if (!res.body) throw new Error('No response body');
+
+    let usage: TokenUsage | null = null;
+    for await (const sse of parseSSE(res.body)) {
+        const chunk = parseEventData<GenerateContentResponse>(sse, 'Gemini');
+        if (chunk.usageMetadata) {
+            usage = { inputTokens: chunk.usageMetadata.promptTokenCount || 0, outputTokens: chunk.usageMetadata.candidatesTokenCount || 0 };
         }
 
-        if (!res.body) throw new Error('No response body');
-
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
-
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-
-            // Basic parsing strategy for Gemini's JSON array stream
-            // The stream usually looks like: [{...},\n{...},\n{...}]
-            // We want to extract objects that look like {"candidates": ...}
-
-            let cursor = 0;
-            while (cursor < buffer.length) {
-                // Find start of an object (assuming it starts with {)
-                const start = buffer.indexOf('{', cursor);
-                if (start === -1) {
-                    // No new object start found, keep buffer from cursor and wait for more data
-                    // However, we might have garbage at the start (e.g. '[' or ',')
-                    if (cursor === 0 && buffer.length > 20) { // arbitrary safety check to avoid infinite growth if garbage
-                        // If we are at start and can't find '{' but buffer is big, trim
-                        // actually, real stream starts with '['. 
-                        // Just searching for '{' is safer.
-                    }
-                    break;
-                }
-
-                // Try to find the matching closing brace
-                // This is simple brace counting
-                let braceCount = 0;
-                let end = -1;
-                let inString = false;
-
-                for (let i = start; i < buffer.length; i++) {
-                    const char = buffer[i];
-                    if (char === '"' && buffer[i - 1] !== '\\') {
-                        inString = !inString;
-                    }
-                    if (!inString) {
-                        if (char === '{') braceCount++;
-                        if (char === '}') {
-                            braceCount--;
-                            if (braceCount === 0) {
-                                end = i;
-                                break;
-                            }
-                        }
-                    }
-                }
-
-                if (end !== -1) {
-                    // valid object found from start to end
-                    const jsonStr = buffer.substring(start, end + 1);
-                    cursor = end + 1; // move cursor past this object
-
-                    try {
-                        const json = JSON.parse(jsonStr);
-                        const text = json.candidates?.[0]?.content?.parts?.[0]?.text;
-                        if (text) {
-                            yield text;
-                        }
-                    } catch (e) {
-                        console.warn("Gemini JSON parse error", e);
-                    }
-                } else {
-                    // No complete object found yet, need more data
-                    break;
-                }
-            }
-
-            // Keep only the unprocessed part of the buffer
-            if (cursor > 0) {
-                buffer = buffer.substring(cursor);
-            }
+        if (chunk.error) {
+            throw new ProviderError('Gemini', chunk.error.message || 'Stream error', { type: chunk.error.status, status: chunk.error.code });
+        }
+        if (chunk.promptFeedback?.blockReason) {
+            throw new ProviderError('Gemini', `Prompt blocked (${chunk.promptFeedback.blockReason})`, { type: 'blocked' });
         }
+
+        const text = chunk.candidates?.[0]?.content?.parts?.map(p => p.text || '').join('');
+        if (text) yield text;
     }
-};
+    if (usage) options.onUsage?.(usage);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildSearchIndex, collectTags, filterArticles, highlightSegments, parseQuery, suggestTags,
+    EMPTY_FILTER, type SavedArticle
+} from './library';
+
+const articles: SavedArticle[] = [
+    { id: '1', title: 'Rust async in practice', url: 'https://blog.rust-lang.org/async', savedAt: '2026-01-10T10:00:00Z', summary: 'Futures and **tokio** runtimes.', tags: ['rust'] },
+    { id: '2', title: 'Quarterly report', url: 'https://www.example.com/q3', savedAt: '2026-02-15T10:00:00Z', summary: 'Revenue grew with new customers.', tags: ['finance', 'rust'] },
+    { id: '3', title: 'Baking sourdough', url: 'https://example.com/bread', savedAt: '2026-03-01T10:00:00Z' }
+];
+
+const index = buildSearchIndex(articles);
+const ids = (result: SavedArticle[]) => result.map(a => a.id);
+
+describe('filterArticles', () => {
+    it('returns everything newest first by default', () => {
+        expect(ids(filterArticles(index, EMPTY_FILTER))).toEqual(['3', '2', '1']);
+    });
+
+    it('searches titles, URLs and summaries with all terms required', () => {
+        expect(ids(filterArticles(index, { ...EMPTY_FILTER, query: 'tokio' }))).toEqual(['1']);
+        expect(ids(filterArticles(index, { ...EMPTY_FILTER, query: 'example bread' }))).toEqual(['3']);
+        expect(ids(filterArticles(index, { ...EMPTY_FILTER, query: '"new customers"' }))).toEqual(['2']);
+    });
+
+    it('filters by tags, domain and date range', () => {
+        expect(ids(filterArticles(index, { ...EMPTY_FILTER, tags: ['rust', 'finance'] }))).toEqual(['2']);
+        expect(ids(filterArticles(index, { ...EMPTY_FILTER, domain: 'example.com' }))).toEqual(['3', '2']);
+        expect(ids(filterArticles(index, { ...EMPTY_FILTER, from: '2026-02-01', to: '2026-02-28' }))).toEqual(['2']);
+    });
+
+    it('sorts by title and oldest', () => {
+        expect(ids(filterArticles(index, { ...EMPTY_FILTER, sort: 'title' }))).toEqual(['3', '2', '1']);
+        expect(ids(filterArticles(index, { ...EMPTY_FILTER, sort: 'oldest' }))).toEqual(['1', '2', '3']);
+    });
+
+    it('stays fast with thousands of entries', () => {
+        const many = buildSearchIndex(Array.from({ length: 5000 }, (_, i) => ({
+            ...articles[i % 3], id: String(i), savedAt: new Date(2026, 0, 1 + (i % 300)).toISOString()
+        })));
+        const start = performance.now();
+        const result = filterArticles(many, { ...EMPTY_FILTER, query: 'report' });
+        expect(result).toHaveLength(1667);
+        expect(performance.now() - start).toBeLessThan(200);
+    });
+});
+
+describe('search helpers', () => {
+    it('parses quoted phrases', () => {
+        expect(parseQuery('Rust "async io"  tokio')).toEqual(['rust', 'async io', 'tokio']);
+    });
+
+    it('highlights matches case-insensitively', () => {
+        expect(highlightSegments('Rust async', ['async'])).toEqual([
+            { text: 'Rust ', match: false },
+            { text: 'async', match: true }
+        ]);
+    });
+
+    it('counts tags by usage', () => {
+        expect(collectTags(articles)).toEqual([['rust', 2], ['finance', 1]]);
+    });
+});
+
+describe('suggestTags', () => {
+    it('suggests bold phrases and repeated words, skipping existing tags', () => {
+        const summary = '# Title\n\n**Machine Learning** models. Transformers beat RNNs; transformers scale. **Rust**';
+        expect(suggestTags(summary, ['rust'])).toEqual(['machine-learning', 'transformers']);
+    });
+});
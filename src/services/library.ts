@@ -0,0 +1,196 @@
+import { type ChatMessage } from './llm';
+import { type StructuredSummary } from './structured';
+
+/** What was summarized; absent for web articles saved before this was recorded. */
+export type ContentType = 'article' | 'video' | 'pdf';
+
+/** Document details of a saved PDF. */
+export interface PdfInfo {
+    pageCount: number;
+    subject?: string;
+    keywords?: string;
+    /** ISO date the document was created, from its metadata. */
+    createdAt?: string;
+}
+
+export interface SavedArticle {
+    id: string;
+    title: string;
+    url: string;
+    savedAt: string;
+    contentType?: ContentType;
+    /** The video's channel, or the document's author for PDFs. */
+    author?: string;
+    pdf?: PdfInfo;
+    summary?: string;
+    /** Set when the summary was generated in structured mode; `summary` holds its Markdown version. */
+    structured?: StructuredSummary;
+    conversation?: ChatMessage[];
+    tags?: string[];
+}
+
+export type LibrarySort = 'newest' | 'oldest' | 'title' | 'domain';
+
+export interface LibraryFilter {
+    query: string;
+    tags: string[];
+    domain: string;
+    /** Inclusive `YYYY-MM-DD` bounds on `savedAt`, empty for no bound. */
+    from: string;
+    to: string;
+    sort: LibrarySort;
+}
+
+export const EMPTY_FILTER: LibraryFilter = {
+    query: '',
+    tags: [],
+    domain: '',
+    from: '',
+    to: '',
+    sort: 'newest'
+};
+
+export interface IndexedArticle {
+    article: SavedArticle;
+    domain: string;
+    /** Lowercased title, URL and summary, searched with plain `includes`. */
+    haystack: string;
+}
+
+export function getDomain(url: string): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return '';
+    }
+}
+
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+}
+
+/**
+ * Precomputes what search and filters need, so typing stays fast with thousands of entries.
+ */
+export function buildSearchIndex(articles: SavedArticle[]): IndexedArticle[] {
+    return articles.map(article => ({
+        article,
+        domain: getDomain(article.url),
+        haystack: `${article.title}\n${article.url}\n${article.summary || ''}`.toLowerCase()
+    }));
+}
+
+/**
+ * Splits a query into lowercase terms; quoted phrases stay together.
+ */
+export function parseQuery(query: string): string[] {
+    const terms: string[] = [];
+    for (const match of query.toLowerCase().matchAll(/"([^"]+)"|(\S+)/g)) {
+        const term = (match[1] || match[2]).trim();
+        if (term) terms.push(term);
+    }
+    return terms;
+}
+
+export function filterArticles(index: IndexedArticle[], filter: LibraryFilter): SavedArticle[] {
+    const terms = parseQuery(filter.query);
+    const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+    const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+
+    const matches = index.filter(entry => {
+        if (filter.domain && entry.domain !== filter.domain) return false;
+        if (filter.tags.length > 0 && !filter.tags.every(tag => entry.article.tags?.includes(tag))) return false;
+        const savedAt = new Date(entry.article.savedAt).getTime();
+        if (savedAt < from || savedAt > to) return false;
+        return terms.every(term => entry.haystack.includes(term));
+    });
+
+    const byDate = (a: IndexedArticle, b: IndexedArticle) => b.article.savedAt.localeCompare(a.article.savedAt);
+    switch (filter.sort) {
+        case 'oldest':
+            matches.sort((a, b) => byDate(b, a));
+            break;
+        case 'title':
+            matches.sort((a, b) => a.article.title.localeCompare(b.article.title));
+            break;
+        case 'domain':
+            matches.sort((a, b) => a.domain.localeCompare(b.domain) || byDate(a, b));
+            break;
+        default:
+            matches.sort(byDate);
+    }
+    return matches.map(entry => entry.article);
+}
+
+/**
+ * All tags with how many articles use them, most used first.
+ */
+export function collectTags(articles: SavedArticle[]): [string, number][] {
+    const counts = new Map<string, number>();
+    for (const article of articles) {
+        for (const tag of article.tags || []) counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+export function collectDomains(index: IndexedArticle[]): string[] {
+    return [...new Set(index.map(entry => entry.domain).filter(Boolean))].sort();
+}
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+/**
+ * Splits text into plain and matching segments for rendering search highlights.
+ */
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+    if (terms.length === 0 || !text) return [{ text, match: false }];
+    const escaped = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+    return text
+        .split(pattern)
+        .filter(Boolean)
+        .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+const STOPWORDS = new Set([
+    'about', 'after', 'also', 'because', 'been', 'before', 'being', 'between', 'both', 'could', 'does',
+    'each', 'from', 'have', 'here', 'into', 'items', 'just', 'more', 'most', 'much', 'must', 'only',
+    'other', 'over', 'same', 'should', 'some', 'such', 'summary', 'takeaways', 'than', 'that', 'their',
+    'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'tl;dr', 'under', 'very',
+    'well', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your',
+    'action', 'article', 'author', 'conclusion', 'takeaway', 'point', 'points'
+]);
+
+/**
+ * Suggests tags from a summary: emphasized phrases first, then the most frequent meaningful words.
+ */
+export function suggestTags(summary: string, existing: string[] = [], limit = 5): string[] {
+    const taken = new Set(existing);
+    const suggestions: string[] = [];
+    const add = (candidate: string) => {
+        const tag = normalizeTag(candidate);
+        if (tag.length < 3 || tag.length > 30 || taken.has(tag) || suggestions.includes(tag)) return;
+        if (STOPWORDS.has(tag)) return;
+        suggestions.push(tag);
+    };
+
+    // Short **bold** phrases are usually the key concepts
+    for (const match of summary.matchAll(/\*\*([^*\n]{3,30})\*\*/g)) {
+        const phrase = match[1].replace(/[:.,;]+$/, '');
+        if (phrase.split(/\s+/).length <= 3) add(phrase);
+    }
+
+    const counts = new Map<string, number>();
+    for (const word of summary.toLowerCase().match(/\p{L}[\p{L}\p{N}-]{3,}/gu) || []) {
+        if (!STOPWORDS.has(word)) counts.set(word, (counts.get(word) || 0) + 1);
+    }
+    [...counts.entries()]
+        .filter(([, count]) => count > 1)
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([word]) => add(word));
+
+    return suggestions.slice(0, limit);
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import 'fake-indexeddb/auto';
+import {
+    closeLibraryDB, deleteArticle, getAllArticles, getArticlesByTag, getArticlesByUrl, putArticles,
+    subscribeLibrary, updateArticle, updateArticlesByUrl, type LibraryChange
+} from './library_db';
+import { type SavedArticle } from './library';
+
+const article = (id: string, savedAt: string, extra: Partial<SavedArticle> = {}): SavedArticle => ({
+    id, title: `Article ${id}`, url: `https://example.com/${id}`, savedAt, ...extra
+});
+
+let storage: Record<string, unknown>;
+
+beforeEach(() => {
+    storage = {};
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('chrome', {
+        storage: {
+            local: {
+                get: async (key: string) => (key in storage ? { [key]: storage[key] } : {}),
+                remove: async (key: string) => { delete storage[key]; }
+            }
+        }
+    });
+});
+
+afterEach(async () => {
+    await closeLibraryDB();
+    vi.unstubAllGlobals();
+});
+
+describe('library database', () => {
+    it('moves legacy chrome.storage articles over once', async () => {
+        storage.saved_articles = [article('a', '2026-01-01T00:00:00Z'), article('b', '2026-02-01T00:00:00Z'), { title: 'broken' }];
+        expect((await getAllArticles()).map(a => a.id)).toEqual(['b', 'a']);
+        expect(storage).not.toHaveProperty('saved_articles');
+
+        await closeLibraryDB();
+        expect(await getAllArticles()).toHaveLength(2);
+    });
+
+    it('keeps existing entries when the legacy copy overlaps', async () => {
+        await putArticles([article('a', '2026-01-01T00:00:00Z', { title: 'New title' })]);
+        await closeLibraryDB();
+        storage.saved_articles = [article('a', '2026-01-01T00:00:00Z'), article('b', '2026-02-01T00:00:00Z')];
+
+        const articles = await getAllArticles();
+        expect(articles.map(a => a.id)).toEqual(['b', 'a']);
+        expect(articles[1].title).toBe('New title');
+    });
+
+    it('looks articles up by URL and tag', async () => {
+        await putArticles([
+            article('a', '2026-01-01T00:00:00Z', { tags: ['rust', 'async'] }),
+            article('b', '2026-02-01T00:00:00Z', { tags: ['rust'] })
+        ]);
+        expect((await getArticlesByUrl('https://example.com/a')).map(a => a.id)).toEqual(['a']);
+        expect((await getArticlesByTag('rust')).map(a => a.id).sort()).toEqual(['a', 'b']);
+        expect(await getArticlesByTag('async')).toHaveLength(1);
+    });
+
+    it('updates and deletes single articles', async () => {
+        await putArticles([article('a', '2026-01-01T00:00:00Z'), article('b', '2026-02-01T00:00:00Z')]);
+
+        expect(await updateArticle('a', { tags: ['x'] })).toMatchObject({ id: 'a', tags: ['x'] });
+        expect(await updateArticle('missing', { tags: ['x'] })).toBeNull();
+        const conversation = [{ role: 'user' as const, content: 'Why?' }];
+        expect(await updateArticlesByUrl('https://example.com/b', { conversation })).toHaveLength(1);
+
+        await deleteArticle('a');
+        expect(await getAllArticles()).toEqual([{ ...article('b', '2026-02-01T00:00:00Z'), conversation }]);
+    });
+
+    it('broadcasts every write', async () => {
+        const changes: LibraryChange[] = [];
+        const unsubscribe = subscribeLibrary(change => changes.push(change));
+
+        await putArticles([article('a', '2026-01-01T00:00:00Z')]);
+        await updateArticle('a', { tags: ['x'] });
+        await deleteArticle('a');
+        await vi.waitFor(() => expect(changes).toHaveLength(3));
+        unsubscribe();
+
+        expect(changes).toEqual([
+            { type: 'put', ids: ['a'] },
+            { type: 'put', ids: ['a'] },
+            { type: 'delete', id: 'a' }
+        ]);
+    });
+});
@@ -0,0 +1,205 @@
+import { type SavedArticle } from './library';
+
+const DB_NAME = 'vibecapsule';
+const STORE = 'articles';
+const CHANNEL = 'vibecapsule-library';
+/** Where the library lived before IndexedDB. Moved over once, then removed. */
+const LEGACY_STORAGE_KEY = 'saved_articles';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+/**
+ * Schema migrations, run in order inside the upgrade transaction. `MIGRATIONS[i]` upgrades
+ * version i to i + 1, so adding a step here is all a new `SavedArticle` field needs:
+ * create indexes, or rewrite records with `tx.objectStore(STORE).openCursor()`.
+ */
+const MIGRATIONS: Migration[] = [
+    (db) => {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('url', 'url');
+        store.createIndex('savedAt', 'savedAt');
+        store.createIndex('tags', 'tags', { multiEntry: true });
+    }
+];
+
+export const LIBRARY_DB_VERSION = MIGRATIONS.length;
+
+export type LibraryChange =
+    | { type: 'put'; ids: string[] }
+    | { type: 'delete'; id: string };
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, LIBRARY_DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const tx = request.transaction!;
+            for (let version = event.oldVersion; version < LIBRARY_DB_VERSION; version++) {
+                MIGRATIONS[version](request.result, tx);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Let a newer version of the extension (e.g. after an update) take over
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('Library database is open in an older version of the extension'));
+    });
+}
+
+/**
+ * Moves articles from `chrome.storage.local` into the database, keeping whichever copy exists already.
+ */
+async function migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+    const result = await chrome.storage.local.get(LEGACY_STORAGE_KEY);
+    const legacy = result[LEGACY_STORAGE_KEY] as SavedArticle[] | undefined;
+    if (!Array.isArray(legacy)) return;
+
+    if (legacy.length > 0) {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        for (const article of legacy) {
+            if (!article?.id || !article.url) continue;
+            // An article that is already in the database wins; don't abort the whole move over it
+            store.add(article).onerror = (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+            };
+        }
+        await done(tx);
+    }
+    await chrome.storage.local.remove(LEGACY_STORAGE_KEY);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDatabase().then(async db => {
+            await migrateLegacyStorage(db);
+            return db;
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+/** Closes the connection; the next call reopens it. Mainly for tests. */
+export async function closeLibraryDB(): Promise<void> {
+    const db = await dbPromise?.catch(() => null);
+    db?.close();
+    dbPromise = null;
+}
+
+let channel: BroadcastChannel | null = null;
+
+function broadcast(change: LibraryChange) {
+    channel ??= new BroadcastChannel(CHANNEL);
+    channel.postMessage(change);
+}
+
+/**
+ * Calls `listener` after any library write, from this page or any other extension page.
+ */
+export function subscribeLibrary(listener: (change: LibraryChange) => void): () => void {
+    // A separate channel object, so writes from this page are delivered too
+    const subscription = new BroadcastChannel(CHANNEL);
+    subscription.onmessage = (event: MessageEvent<LibraryChange>) => listener(event.data);
+    return () => subscription.close();
+}
+
+/**
+ * All articles, newest first.
+ */
+export async function getAllArticles(): Promise<SavedArticle[]> {
+    const db = await getDatabase();
+    const articles = await promisify(db.transaction(STORE).objectStore(STORE).index('savedAt').getAll());
+    return (articles as SavedArticle[]).reverse();
+}
+
+export async function getArticlesByUrl(url: string): Promise<SavedArticle[]> {
+    const db = await getDatabase();
+    return promisify(db.transaction(STORE).objectStore(STORE).index('url').getAll(url));
+}
+
+export async function getArticlesByTag(tag: string): Promise<SavedArticle[]> {
+    const db = await getDatabase();
+    return promisify(db.transaction(STORE).objectStore(STORE).index('tags').getAll(tag));
+}
+
+/**
+ * Inserts or overwrites articles by id, in one transaction.
+ */
+export async function putArticles(articles: SavedArticle[]): Promise<void> {
+    if (articles.length === 0) return;
+    const db = await getDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    for (const article of articles) store.put(article);
+    await done(tx);
+    broadcast({ type: 'put', ids: articles.map(a => a.id) });
+}
+
+/**
+ * Read-modify-write of every article with this URL in a single transaction, so concurrent
+ * edits from other panels are not lost. Returns the updated articles.
+ */
+export async function updateArticlesByUrl(url: string, patch: Partial<Omit<SavedArticle, 'id'>>): Promise<SavedArticle[]> {
+    const db = await getDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const updated: SavedArticle[] = [];
+    const cursorRequest = store.index('url').openCursor(url);
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const article = { ...(cursor.value as SavedArticle), ...patch };
+        cursor.update(article);
+        updated.push(article);
+        cursor.continue();
+    };
+    await done(tx);
+    if (updated.length > 0) broadcast({ type: 'put', ids: updated.map(a => a.id) });
+    return updated;
+}
+
+export async function updateArticle(id: string, patch: Partial<Omit<SavedArticle, 'id'>>): Promise<SavedArticle | null> {
+    const db = await getDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const finished = done(tx);
+    const store = tx.objectStore(STORE);
+    const current = await promisify(store.get(id)) as SavedArticle | undefined;
+    if (!current) return null;
+    const article = { ...current, ...patch };
+    store.put(article);
+    await finished;
+    broadcast({ type: 'put', ids: [id] });
+    return article;
+}
+
+export async function deleteArticle(id: string): Promise<void> {
+    const db = await getDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await done(tx);
+    broadcast({ type: 'delete', id });
+}
@@ -0,0 +1,160 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { strToU8 } from 'fflate';
+import {
+    applyImport, articleToMarkdown, exportBookmarksHTML, exportJSON, exportMarkdownZip, markdownToArticle,
+    parseImportFile, planImport, LIBRARY_SCHEMA_VERSION
+} from './library_io';
+import { type SavedArticle } from './library';
+
+const articles: SavedArticle[] = [
+    {
+        id: '1',
+        title: 'Rust async: "in practice"',
+        url: 'https://blog.rust-lang.org/async',
+        savedAt: '2026-01-10T10:00:00.000Z',
+        summary: '### TL;DR\nFutures & **tokio** <runtimes>.',
+        tags: ['rust', 'async'],
+        conversation: [
+            { role: 'user', content: 'Is tokio required?' },
+            { role: 'assistant', content: 'No.\n\nAny executor works.' }
+        ]
+    },
+    { id: '2', title: 'Baking sourdough', url: 'https://example.com/bread', savedAt: '2026-03-01T10:00:00.000Z' }
+];
+
+describe('JSON backup', () => {
+    it('round-trips articles with a schema version', () => {
+        const json = exportJSON(articles);
+        expect(JSON.parse(json).version).toBe(LIBRARY_SCHEMA_VERSION);
+        expect(parseImportFile('backup.json', strToU8(json))).toEqual(articles);
+    });
+
+    it('accepts a bare array and rejects newer schema versions', () => {
+        expect(parseImportFile('saved.json', strToU8(JSON.stringify(articles)))).toHaveLength(2);
+        const future = JSON.stringify({ schema: 'vibecapsule-library', version: LIBRARY_SCHEMA_VERSION + 1, articles });
+        expect(() => parseImportFile('backup.json', strToU8(future))).toThrow(/newer version/);
+    });
+
+    it('drops entries without a URL and fills in missing fields', () => {
+        const [article, ...rest] = parseImportFile('x.json', strToU8(JSON.stringify([{ url: 'https://a.com', tags: ['#Big Data', 7] }, { title: 'no url' }])));
+        expect(rest).toEqual([]);
+        expect(article.title).toBe('https://a.com');
+        expect(article.id).toBeTruthy();
+        expect(article.tags).toEqual(['big-data']);
+    });
+
+    it('keeps only known fields and drops malformed ones', () => {
+        const [article] = parseImportFile('x.json', strToU8(JSON.stringify([{
+            url: 'https://a.com',
+            isAdmin: true,
+            contentType: 'pdf',
+            pdf: { pageCount: 'many' },
+            structured: { title: 'No TL;DR' },
+            author: 42
+        }])));
+        expect(article).not.toHaveProperty('isAdmin');
+        expect(article.contentType).toBe('pdf');
+        expect(article.pdf).toBeUndefined();
+        expect(article.structured).toBeUndefined();
+        expect(article.author).toBeUndefined();
+    });
+
+    it('rejects URLs that could run script and malformed chat messages', () => {
+        const imported = parseImportFile('x.json', strToU8(JSON.stringify([
+            { url: 'javascript:alert(1)' },
+            { url: 'data:text/html,<script>alert(1)</script>' },
+            { url: 'https://a.com', conversation: [null, 'hi', { role: 'user', content: 'Why?', extra: true }] }
+        ])));
+        expect(imported.map(a => a.url)).toEqual(['https://a.com']);
+        expect(imported[0].conversation).toEqual([{ role: 'user', content: 'Why?' }]);
+    });
+
+    it('keeps valid structured summaries and PDF details', () => {
+        const structured = { title: 'T', tldr: 'Short', takeaways: ['a'], actionItems: [], entities: [], sentiment: 'mixed' };
+        const pdf = { pageCount: 3, subject: 'Physics' };
+        const [article] = parseImportFile('x.json', strToU8(JSON.stringify([{ url: 'https://a.com/x.pdf', contentType: 'pdf', pdf, structured }])));
+        expect(article.structured).toEqual(structured);
+        expect(article.pdf).toEqual(pdf);
+    });
+});
+
+describe('Markdown export', () => {
+    it('round-trips front matter, summary and conversation', () => {
+        expect(markdownToArticle(articleToMarkdown(articles[0]))).toEqual(articles[0]);
+        expect(markdownToArticle(articleToMarkdown(articles[1]))).toEqual(articles[1]);
+    });
+
+    it('round-trips the video source and channel', () => {
+        const video: SavedArticle = { ...articles[1], id: '4', url: 'https://www.youtube.com/watch?v=abc', contentType: 'video', author: 'Bake School' };
+        expect(articleToMarkdown(video)).toContain('type: "video"');
+        expect(markdownToArticle(articleToMarkdown(video))).toEqual(video);
+    });
+
+    it('round-trips PDF document details', () => {
+        const pdf: SavedArticle = {
+            ...articles[1], id: '5', url: 'https://arxiv.org/pdf/2401.00001', contentType: 'pdf', author: 'A. Baker',
+            pdf: { pageCount: 12, subject: 'Sourdough', keywords: 'bread, yeast', createdAt: '2024-01-31T11:00:00.000Z' }
+        };
+        expect(articleToMarkdown(pdf)).toContain('pages: 12');
+        expect(markdownToArticle(articleToMarkdown(pdf))).toEqual(pdf);
+    });
+
+    it('round-trips through a zip with unique file names', () => {
+        const zip = exportMarkdownZip([...articles, { ...articles[1], id: '3', url: 'https://example.com/bread-2' }]);
+        const imported = parseImportFile('library.zip', zip);
+        expect(imported).toHaveLength(3);
+        expect(imported.map(a => a.id).sort()).toEqual(['1', '2', '3']);
+    });
+
+    it('reads block-list tags from hand-written notes', () => {
+        const note = '---\ntitle: Notes\nsource: https://x.dev/post\ntags:\n  - one\n  - two\n---\nBody text';
+        expect(markdownToArticle(note)).toMatchObject({ url: 'https://x.dev/post', tags: ['one', 'two'], summary: 'Body text' });
+    });
+});
+
+describe('bookmarks HTML', () => {
+    it('round-trips titles, dates, tags and summaries', () => {
+        const imported = parseImportFile('bookmarks.html', strToU8(exportBookmarksHTML(articles)));
+        expect(imported.map(({ title, url, savedAt, tags, summary }) => ({ title, url, savedAt, tags, summary })))
+            .toEqual(articles.map(({ title, url, savedAt, tags, summary }) => ({ title, url, savedAt, tags, summary })));
+    });
+});
+
+describe('planImport / applyImport', () => {
+    const incoming: SavedArticle[] = [
+        { ...articles[0], id: 'other', url: 'https://blog.rust-lang.org/async/?utm_source=feed', title: 'Renamed', tags: ['tokio'] },
+        { ...articles[1], id: 'x' },
+        { id: '2', title: 'New', url: 'https://new.dev', savedAt: '2026-04-01T00:00:00.000Z' }
+    ];
+
+    it('matches by normalized URL and reports conflicts', () => {
+        const plan = planImport(articles, incoming);
+        expect(plan.added.map(a => a.url)).toEqual(['https://new.dev']);
+        expect(plan.unchanged).toBe(1);
+        expect(plan.conflicts).toHaveLength(1);
+        expect(plan.conflicts[0].existing.id).toBe('1');
+    });
+
+    it('keeps the library version by default and merges tags', () => {
+        const result = applyImport(articles, planImport(articles, incoming), {});
+        const rust = result.find(a => a.url === articles[0].url)!;
+        expect(rust.title).toBe(articles[0].title);
+        expect(rust.tags).toEqual(['rust', 'async', 'tokio']);
+        // The added article's id clashed with an existing one
+        expect(new Set(result.map(a => a.id)).size).toBe(3);
+        expect(result[0].url).toBe('https://new.dev');
+    });
+
+    it('replaces content but keeps the library id', () => {
+        const result = applyImport(articles, planImport(articles, incoming), { '1': 'replace' });
+        expect(result.find(a => a.id === '1')?.title).toBe('Renamed');
+    });
+
+    it('drops the old structured summary when the replacement has none', () => {
+        const structured = { title: 'T', tldr: 'Short', takeaways: [], actionItems: [], entities: [], sentiment: 'neutral' as const };
+        const withStructured = articles.map(a => a.id === '1' ? { ...a, structured } : a);
+        const result = applyImport(withStructured, planImport(withStructured, incoming), { '1': 'replace' });
+        expect(result.find(a => a.id === '1')?.structured).toBeUndefined();
+    });
+});
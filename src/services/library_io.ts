@@ -0,0 +1,399 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { type ChatMessage } from './llm';
+import { normalizeTag, type ContentType, type PdfInfo, type SavedArticle } from './library';
+import { toStructuredSummary, type StructuredSummary } from './structured';
+import { normalizeUrl } from './summary_cache';
+
+export const LIBRARY_SCHEMA = 'vibecapsule-library';
+export const LIBRARY_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'bookmarks';
+
+interface LibraryBackup {
+    schema: typeof LIBRARY_SCHEMA;
+    version: number;
+    exportedAt: string;
+    articles: SavedArticle[];
+}
+
+// --- JSON ---
+
+export function exportJSON(articles: SavedArticle[]): string {
+    const backup: LibraryBackup = {
+        schema: LIBRARY_SCHEMA,
+        version: LIBRARY_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        articles
+    };
+    return JSON.stringify(backup, null, 2);
+}
+
+function parseJSON(text: string): SavedArticle[] {
+    const data = JSON.parse(text);
+    // A bare array is what `saved_articles` looks like in storage
+    const articles = Array.isArray(data) ? data : data?.articles;
+    if (!Array.isArray(articles)) throw new Error('Not a VibeCapsule backup');
+    if (!Array.isArray(data) && data.version > LIBRARY_SCHEMA_VERSION) {
+        throw new Error(`Backup was made by a newer version (schema v${data.version})`);
+    }
+    return articles.map(sanitizeArticle).filter((a): a is SavedArticle => a !== null);
+}
+
+// --- Markdown with YAML front matter ---
+
+function slugify(title: string): string {
+    return title
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^\p{L}\p{N}]+/gu, '-')
+        .replace(/^-+|-+$/g, '')
+        .toLowerCase()
+        .slice(0, 60) || 'untitled';
+}
+
+/**
+ * One Markdown note per article. Front matter strings are JSON-quoted, which is valid YAML.
+ */
+export function articleToMarkdown(article: SavedArticle): string {
+    const frontMatter = [
+        '---',
+        `title: ${JSON.stringify(article.title)}`,
+        `url: ${JSON.stringify(article.url)}`,
+        `saved: ${JSON.stringify(article.savedAt)}`,
+        `id: ${JSON.stringify(article.id)}`,
+        `tags: [${(article.tags || []).map(t => JSON.stringify(t)).join(', ')}]`,
+        ...(article.contentType ? [`type: ${JSON.stringify(article.contentType)}`] : []),
+        ...(article.author ? [`author: ${JSON.stringify(article.author)}`] : []),
+        ...(article.pdf ? [`pages: ${article.pdf.pageCount}`] : []),
+        ...(article.pdf?.subject ? [`subject: ${JSON.stringify(article.pdf.subject)}`] : []),
+        ...(article.pdf?.keywords ? [`keywords: ${JSON.stringify(article.pdf.keywords)}`] : []),
+        ...(article.pdf?.createdAt ? [`document-created: ${JSON.stringify(article.pdf.createdAt)}`] : []),
+        '---'
+    ].join('\n');
+
+    let body = article.summary?.trim() || `[${article.title}](${article.url})`;
+    if (article.conversation?.length) {
+        body += '\n\n## Conversation\n\n' + article.conversation
+            .map(m => `**${m.role === 'user' ? 'Q' : 'A'}:** ${m.content.trim()}`)
+            .join('\n\n');
+    }
+    return `${frontMatter}\n\n${body}\n`;
+}
+
+export function exportMarkdownZip(articles: SavedArticle[]): Uint8Array {
+    const files: Record<string, Uint8Array> = {};
+    for (const article of articles) {
+        let name = `${slugify(article.title)}.md`;
+        for (let i = 2; files[name]; i++) name = `${slugify(article.title)}-${i}.md`;
+        files[name] = strToU8(articleToMarkdown(article));
+    }
+    return zipSync(files);
+}
+
+function parseYamlScalar(value: string): string {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('"')) {
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            return trimmed.slice(1, -1);
+        }
+    }
+    if (trimmed.startsWith("'") && trimmed.endsWith("'")) return trimmed.slice(1, -1).replace(/''/g, "'");
+    return trimmed;
+}
+
+/**
+ * Reads the small YAML subset we write (and Obsidian produces): scalars, flow lists and `- item` lists.
+ */
+function parseFrontMatter(yaml: string): Record<string, string | string[]> {
+    const result: Record<string, string | string[]> = {};
+    let listKey: string | null = null;
+    for (const line of yaml.split(/\r?\n/)) {
+        const item = line.match(/^\s+-\s+(.*)$/);
+        if (item && listKey) {
+            (result[listKey] as string[]).push(parseYamlScalar(item[1]));
+            continue;
+        }
+        const pair = line.match(/^([\w-]+):\s*(.*)$/);
+        if (!pair) continue;
+        const [, key, value] = pair;
+        listKey = null;
+        if (value === '') {
+            result[key] = [];
+            listKey = key;
+        } else if (value.startsWith('[')) {
+            result[key] = value.slice(1, value.lastIndexOf(']')).split(',').map(parseYamlScalar).filter(Boolean);
+        } else {
+            result[key] = parseYamlScalar(value);
+        }
+    }
+    return result;
+}
+
+function parsePdfInfo(meta: Record<string, string | string[]>): PdfInfo | undefined {
+    const pageCount = Number(meta.pages);
+    if (!Number.isInteger(pageCount) || pageCount <= 0) return undefined;
+    const text = (value: string | string[] | undefined) => typeof value === 'string' && value ? value : undefined;
+    return {
+        pageCount,
+        subject: text(meta.subject),
+        keywords: text(meta.keywords),
+        createdAt: text(meta['document-created'])
+    };
+}
+
+export function markdownToArticle(markdown: string): SavedArticle | null {
+    const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+    if (!match) return null;
+    const meta = parseFrontMatter(match[1]);
+    let body = match[2].trim();
+
+    let conversation: ChatMessage[] | undefined;
+    const conversationStart = body.indexOf('\n## Conversation\n');
+    if (conversationStart !== -1) {
+        conversation = [...body.slice(conversationStart).matchAll(/\*\*(Q|A):\*\* ([\s\S]*?)(?=\n\n\*\*[QA]:\*\* |$)/g)]
+            .map(m => ({ role: m[1] === 'Q' ? 'user' as const : 'assistant' as const, content: m[2].trim() }));
+        body = body.slice(0, conversationStart).trim();
+    }
+
+    const tags = meta.tags;
+    // Articles without a summary are exported as just a link to themselves
+    const isLinkOnly = body === `[${meta.title}](${meta.url})`;
+    return sanitizeArticle({
+        id: meta.id,
+        title: meta.title,
+        url: meta.url || meta.source,
+        savedAt: meta.saved || meta.created,
+        summary: isLinkOnly ? undefined : body,
+        contentType: meta.type === 'video' || meta.type === 'pdf' ? meta.type : undefined,
+        author: meta.author,
+        pdf: meta.type === 'pdf' ? parsePdfInfo(meta) : undefined,
+        tags: Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(/[,\s]+/) : [],
+        conversation
+    });
+}
+
+function parseMarkdownZip(data: Uint8Array): SavedArticle[] {
+    const files = unzipSync(data, { filter: file => file.name.endsWith('.md') });
+    return Object.values(files)
+        .map(content => markdownToArticle(strFromU8(content)))
+        .filter((a): a is SavedArticle => a !== null);
+}
+
+// --- Netscape bookmarks ---
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function exportBookmarksHTML(articles: SavedArticle[]): string {
+    const items = articles.map(article => {
+        const addDate = Math.floor(new Date(article.savedAt).getTime() / 1000);
+        const tags = article.tags?.length ? ` TAGS="${escapeHtml(article.tags.join(','))}"` : '';
+        const description = article.summary ? `\n    <DD>${escapeHtml(article.summary.trim())}` : '';
+        return `    <DT><A HREF="${escapeHtml(article.url)}" ADD_DATE="${addDate}"${tags}>${escapeHtml(article.title)}</A>${description}`;
+    });
+    return [
+        '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+        '<!-- This is an automatically generated file. -->',
+        '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+        '<TITLE>Bookmarks</TITLE>',
+        '<H1>Bookmarks</H1>',
+        '<DL><p>',
+        '<DT><H3>VibeCapsule</H3>',
+        '<DL><p>',
+        ...items,
+        '</DL><p>',
+        '</DL><p>',
+        ''
+    ].join('\n');
+}
+
+function parseBookmarksHTML(html: string): SavedArticle[] {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return [...doc.querySelectorAll('a[href]')].map(link => {
+        const addDate = Number(link.getAttribute('add_date'));
+        // The description, if any, is the <DD> right after the link's <DT>
+        const next = link.closest('dt')?.nextElementSibling;
+        return sanitizeArticle({
+            title: link.textContent?.trim(),
+            url: link.getAttribute('href'),
+            savedAt: addDate ? new Date(addDate * 1000).toISOString() : undefined,
+            tags: link.getAttribute('tags')?.split(',') || [],
+            summary: next?.tagName === 'DD' ? next.textContent?.trim() : undefined
+        });
+    }).filter((a): a is SavedArticle => a !== null);
+}
+
+// --- Import entry point ---
+
+const CONTENT_TYPES: ContentType[] = ['article', 'video', 'pdf'];
+
+/** Web pages, and local files for saved PDFs; anything else (javascript:, data:) could run when opened. */
+const SAFE_URL = /^(https?|file):/i;
+
+const optionalString = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+function sanitizePdfInfo(value: unknown): PdfInfo | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const info = value as Record<string, unknown>;
+    if (!Number.isInteger(info.pageCount) || (info.pageCount as number) <= 0) return undefined;
+    return {
+        pageCount: info.pageCount as number,
+        subject: optionalString(info.subject),
+        keywords: optionalString(info.keywords),
+        createdAt: optionalString(info.createdAt)
+    };
+}
+
+function sanitizeStructured(value: unknown): StructuredSummary | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+    try {
+        return toStructuredSummary(value as Record<string, unknown>);
+    } catch {
+        return undefined;
+    }
+}
+
+function sanitizeConversation(value: unknown): ChatMessage[] {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((m): m is Record<string, unknown> => typeof m === 'object' && m !== null)
+        .filter(m => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+        .map(m => ({ role: m.role as ChatMessage['role'], content: m.content as string }));
+}
+
+/**
+ * Turns untrusted imported data into a valid SavedArticle, or null if it has no usable URL.
+ * Only known fields are copied, so a crafted file cannot smuggle anything else into storage.
+ */
+function sanitizeArticle(raw: Record<string, unknown> | null | undefined): SavedArticle | null {
+    if (!raw || typeof raw.url !== 'string' || !SAFE_URL.test(raw.url)) return null;
+    const savedAt = typeof raw.savedAt === 'string' && !isNaN(Date.parse(raw.savedAt))
+        ? new Date(raw.savedAt).toISOString()
+        : new Date().toISOString();
+    const tags = Array.isArray(raw.tags)
+        ? [...new Set(raw.tags.filter((t): t is string => typeof t === 'string').map(normalizeTag).filter(Boolean))]
+        : [];
+    const conversation = sanitizeConversation(raw.conversation);
+    const contentType = CONTENT_TYPES.find(type => type === raw.contentType);
+    return {
+        id: optionalString(raw.id) ?? crypto.randomUUID(),
+        title: optionalString(raw.title) ?? raw.url,
+        url: raw.url,
+        savedAt,
+        contentType,
+        author: optionalString(raw.author),
+        pdf: contentType === 'pdf' ? sanitizePdfInfo(raw.pdf) : undefined,
+        summary: optionalString(raw.summary),
+        structured: sanitizeStructured(raw.structured),
+        tags: tags.length > 0 ? tags : undefined,
+        conversation: conversation.length > 0 ? conversation : undefined
+    };
+}
+
+/**
+ * Reads any supported export format, detected from the file name and content.
+ */
+export function parseImportFile(name: string, data: Uint8Array): SavedArticle[] {
+    const lower = name.toLowerCase();
+    // Zip files start with "PK"
+    if (lower.endsWith('.zip') || (data[0] === 0x50 && data[1] === 0x4b)) return parseMarkdownZip(data);
+
+    const text = strFromU8(data);
+    if (lower.endsWith('.md')) {
+        const article = markdownToArticle(text);
+        return article ? [article] : [];
+    }
+    if (lower.endsWith('.html') || lower.endsWith('.htm') || /^\s*<!DOCTYPE NETSCAPE-Bookmark/i.test(text)) {
+        return parseBookmarksHTML(text);
+    }
+    return parseJSON(text);
+}
+
+// --- Merge ---
+
+export interface ImportConflict {
+    existing: SavedArticle;
+    incoming: SavedArticle;
+}
+
+export interface ImportPlan {
+    added: SavedArticle[];
+    conflicts: ImportConflict[];
+    unchanged: number;
+}
+
+function sameContent(a: SavedArticle, b: SavedArticle): boolean {
+    return a.title === b.title
+        && (a.summary || '') === (b.summary || '')
+        && [...(a.tags || [])].sort().join(',') === [...(b.tags || [])].sort().join(',');
+}
+
+/**
+ * Matches imported articles to the library by normalized URL. New URLs are added,
+ * identical ones skipped, and differing ones reported as conflicts for the user to resolve.
+ */
+export function planImport(existing: SavedArticle[], incoming: SavedArticle[]): ImportPlan {
+    const byUrl = new Map(existing.map(a => [normalizeUrl(a.url), a]));
+    const plan: ImportPlan = { added: [], conflicts: [], unchanged: 0 };
+    const seen = new Set<string>();
+
+    for (const article of incoming) {
+        const key = normalizeUrl(article.url);
+        if (seen.has(key)) continue; // Duplicates inside the import file
+        seen.add(key);
+
+        const match = byUrl.get(key);
+        if (!match) plan.added.push(article);
+        else if (sameContent(match, article)) plan.unchanged++;
+        else plan.conflicts.push({ existing: match, incoming: article });
+    }
+    return plan;
+}
+
+export type ConflictResolution = 'keep' | 'replace';
+
+/**
+ * Applies a plan. Replaced articles keep their library id; tags from both sides are kept either way.
+ */
+export function applyImport(existing: SavedArticle[], plan: ImportPlan, resolutions: Record<string, ConflictResolution>): SavedArticle[] {
+    const replacements = new Map<string, SavedArticle>();
+    for (const { existing: current, incoming } of plan.conflicts) {
+        const tags = [...new Set([...(current.tags || []), ...(incoming.tags || [])])];
+        const merged = resolutions[current.id] === 'replace'
+            ? { ...current, ...incoming, id: current.id, structured: incoming.structured }
+            : { ...current };
+        replacements.set(current.id, { ...merged, tags: tags.length > 0 ? tags : undefined });
+    }
+
+    const existingIds = new Set(existing.map(a => a.id));
+    const added = plan.added.map(a => existingIds.has(a.id) ? { ...a, id: crypto.randomUUID() } : a);
+
+    return [...added, ...existing.map(a => replacements.get(a.id) || a)]
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+// --- Download helpers ---
+
+export function exportLibrary(articles: SavedArticle[], format: ExportFormat): { filename: string; blob: Blob } {
+    const date = new Date().toISOString().slice(0, 10);
+    switch (format) {
+        case 'markdown':
+            return { filename: `vibecapsule-${date}.zip`, blob: new Blob([exportMarkdownZip(articles) as BlobPart], { type: 'application/zip' }) };
+        case 'bookmarks':
+            return { filename: `vibecapsule-bookmarks-${date}.html`, blob: new Blob([exportBookmarksHTML(articles)], { type: 'text/html' }) };
+        default:
+            return { filename: `vibecapsule-${date}.json`, blob: new Blob([exportJSON(articles)], { type: 'application/json' }) };
+    }
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
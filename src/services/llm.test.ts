@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { constructPrompt, constructChatSystemPrompt, SYSTEM_PROMPT } from './llm';
+
+const base = { apiKey: 'key', model: 'model', language: 'fr' };
+
+describe('constructPrompt', () => {
+    it('uses the default system prompt with the language filled in', () => {
+        const prompt = constructPrompt(base, 'Article body');
+        expect(prompt.startsWith(SYSTEM_PROMPT.replace('{{LANGUAGE}}', 'fr'))).toBe(true);
+        expect(prompt).not.toContain('{{LANGUAGE}}');
+    });
+
+    it('prefers the custom prompt', () => {
+        const prompt = constructPrompt({ ...base, customPrompt: 'Summarize in {{LANGUAGE}}.' }, 'Article body');
+        expect(prompt).toBe('Summarize in fr.\n\n---\n\nArticle body');
+    });
+
+    it('fills every occurrence of each placeholder', () => {
+        const prompt = constructPrompt({
+            ...base,
+            customPrompt: '{{LANGUAGE}} summary of {{TITLE}}, in {{LANGUAGE}}.',
+            variables: { TITLE: 'Hello' }
+        }, 'Article body');
+        expect(prompt).toBe('fr summary of Hello, in fr.\n\n---\n\nArticle body');
+    });
+
+    it('appends the content after a separator', () => {
+        expect(constructPrompt(base, 'Article body').endsWith('\n\n---\n\nArticle body')).toBe(true);
+    });
+});
+
+describe('constructChatSystemPrompt', () => {
+    it('includes the article and the summary', () => {
+        const prompt = constructChatSystemPrompt('The article', 'The summary', 'de');
+        expect(prompt).toContain('The article');
+        expect(prompt).toContain('The summary');
+        expect(prompt).toContain('Answer in de');
+    });
+});
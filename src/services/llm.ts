@@ -1,15 +1,66 @@
+import { fillTemplate, type PromptVariables } from './prompts';
+import { type ProviderError } from './errors';
+
 export interface SummaryOptions {
     language: string;
     model: string;
     customPrompt?: string;
+    /** Page details for `{{TITLE}}`, `{{URL}}` and the other template placeholders. */
+    variables?: PromptVariables;
+    /** Ask for JSON matching this schema, using the provider's structured output feature. */
+    responseSchema?: JsonSchema;
+    /** Called with the token counts the provider reports for the request, if it reports any. */
+    onUsage?: (usage: TokenUsage) => void;
+    /** Called before a transient failure (rate limit, overload) is retried. */
+    onRetry?: (error: ProviderError, delayMs: number, attempt: number) => void;
+    apiKey: string;
+    /** Aborts the request and closes the response stream. */
+    signal?: AbortSignal;
+}
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatOptions {
+    model: string;
     apiKey: string;
+    /** System instruction for the whole conversation (e.g. the article being discussed). */
+    system?: string;
+    responseSchema?: JsonSchema;
+    onUsage?: (usage: TokenUsage) => void;
+    onRetry?: (error: ProviderError, delayMs: number, attempt: number) => void;
+    signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * The JSON Schema subset every provider's structured output accepts.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    enum?: string[];
 }
 
 export interface LLMService {
     name: string;
     summarize(text: string, options: SummaryOptions): AsyncGenerator<string, void, unknown>;
+    /** Multi-turn conversation; streams the assistant's reply to the last user message. */
+    chat(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string, void, unknown>;
     validateKey(key: string): Promise<boolean>;
     getModels(apiKey: string): Promise<string[]>;
+    /** Approximate input context window of the model, in tokens. */
+    getContextWindow(model: string): number;
 }
 
 export const SYSTEM_PROMPT = `
@@ -23,6 +74,17 @@ IMPORTANT: The article may be in any language, but you MUST provide the summary
 
 export function constructPrompt(options: SummaryOptions, content: string): string {
     const promptTemplate = options.customPrompt || SYSTEM_PROMPT;
-    const systemInstruction = promptTemplate.replace('{{LANGUAGE}}', options.language);
+    const systemInstruction = fillTemplate(promptTemplate, { ...options.variables, LANGUAGE: options.language });
     return `${systemInstruction}\n\n---\n\n${content}`;
 }
+
+export const CHAT_SYSTEM_PROMPT = `
+You are a helpful assistant answering follow-up questions about a web article the user is reading.
+Base your answers on the article below. If the article does not cover something, say so instead of guessing.
+Quote the author where it helps. Answer in {{LANGUAGE}} unless the user writes in another language.
+`;
+
+export function constructChatSystemPrompt(article: string, summary: string, language: string): string {
+    const instruction = CHAT_SYSTEM_PROMPT.replaceAll('{{LANGUAGE}}', language);
+    return `${instruction}\n\n--- ARTICLE ---\n\n${article}\n\n--- SUMMARY YOU ALREADY GAVE ---\n\n${summary}`;
+}
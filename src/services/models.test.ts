@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { pickBestModel } from './models';
+
+describe('pickBestModel', () => {
+    it('returns an empty string for no models', () => {
+        expect(pickBestModel([], 'openai')).toBe('');
+    });
+
+    it('always picks Gemini Nano for Chrome AI', () => {
+        expect(pickBestModel(['anything'], 'chrome')).toBe('gemini-nano');
+    });
+
+    it('prefers the listed low cost models in order', () => {
+        expect(pickBestModel(['gpt-4o', 'gpt-3.5-turbo', 'gpt-4o-mini'], 'openai')).toBe('gpt-4o-mini');
+        expect(pickBestModel(['claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022'], 'anthropic')).toBe('claude-3-5-haiku-20241022');
+        expect(pickBestModel(['gemini-1.5-pro', 'gemini-1.5-flash-latest'], 'gemini')).toBe('gemini-1.5-flash-latest');
+    });
+
+    it('falls back to a model with a "fast" keyword', () => {
+        expect(pickBestModel(['claude-3-opus-latest', 'claude-3-haiku-latest'], 'anthropic')).toBe('claude-3-haiku-latest');
+        expect(pickBestModel(['llama3.1:70b', 'qwen2.5:mini'], 'compatible')).toBe('qwen2.5:mini');
+    });
+
+    it('falls back to the first model', () => {
+        expect(pickBestModel(['llama3.1:70b', 'mistral'], 'compatible')).toBe('llama3.1:70b');
+    });
+});
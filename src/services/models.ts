@@ -0,0 +1,31 @@
+/**
+ * Picks a sensible default model after a key is verified: cheap, fast, text-first models first.
+ */
+export function pickBestModel(models: string[], provider: string): string {
+    if (!models || models.length === 0) return '';
+    if (provider === 'chrome') return 'gemini-nano';
+
+    // Low cost / text-first preferences
+    const preferences: Record<string, string[]> = {
+        'openai': ['gpt-4o-mini', 'gpt-3.5-turbo'],
+        'anthropic': ['claude-3-haiku-20240307', 'claude-3-5-haiku-20241022'],
+        'gemini': ['gemini-1.5-flash', 'gemini-1.5-flash-latest', 'gemini-1.5-flash-001']
+    };
+
+    const preferredList = preferences[provider] || [];
+
+    // 1. Try to find a preferred model
+    for (const pref of preferredList) {
+        if (models.includes(pref)) return pref;
+    }
+
+    // 2. Fallback: Filter out "vision", "embed", "exp" if possible.
+    // Actually, explicit logic is better. If we can't find preferred, pick the first one that looks like a standard model.
+    // Simpler heuristic: Prefer models containing 'flash', 'mini', 'haiku', 'turbo'.
+    const goodKeywords = ['flash', 'mini', 'haiku', 'turbo'];
+    const candidates = models.filter(m => goodKeywords.some(k => m.includes(k)));
+    if (candidates.length > 0) return candidates[0];
+
+    // 3. Absolute fallback
+    return models[0];
+}
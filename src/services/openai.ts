@@ -1,4 +1,14 @@
-import { type LLMService, type SummaryOptions, constructPrompt } from './llm';
+import { type LLMService, type SummaryOptions, type ChatMessage, type ChatOptions, type JsonSchema, type TokenUsage, constructPrompt } from './llm';
+import { ProviderError, providerFetch, responseError, withRetry } from './errors';
+import { parseSSE, parseEventData } from './sse';
+
+// The parts of a streamed chat completion chunk we read
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string } }[];
+    /** Only on the last chunk, when requested with `stream_options.include_usage`. */
+    usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+    error?: { message?: string; type?: string; code?: string };
+}
 
 export const OpenAI: LLMService = {
     name: 'OpenAI',
@@ -33,54 +43,87 @@ export const OpenAI: LLMService = {
         }
     },
 
+    getContextWindow(model: string): number {
+        if (model.startsWith('gpt-4.1')) return 1_000_000;
+        if (model.startsWith('o1') || model.startsWith('o3')) return 200_000;
+        if (model.startsWith('gpt-3.5')) return 16_000;
+        if (model === 'gpt-4' || model.startsWith('gpt-4-0')) return 8_000;
+        return 128_000;
+    },
+
     async *summarize(text: string, options: SummaryOptions): AsyncGenerator<string, void, unknown> {
         const prompt = constructPrompt(options, text);
+        yield* OpenAI.chat([{ role: 'user', content: prompt }], options);
+    },
+
+    async *chat(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string, void, unknown> {
+        yield* streamChatCompletions('https://api.openai.com/v1', options.apiKey, {
+            model: options.model || 'gpt-4o-mini',
+            messages: [
+                ...(options.system ? [{ role: 'system', content: options.system }] : []),
+                ...messages
+            ],
+            ...responseFormat(options.responseSchema)
+        }, options);
+    }
+};
 
-        const res = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${options.apiKey}`
-            },
-            body: JSON.stringify({
-                model: options.model || 'gpt-4o-mini',
-                messages: [{ role: 'user', content: prompt }],
-                stream: true
-            })
-        });
+/**
+ * `response_format` for structured output. Strict mode needs every property listed in `required`.
+ */
+export function responseFormat(schema: JsonSchema | undefined): Record<string, unknown> {
+    if (!schema) return {};
+    return { response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema } } };
+}
 
-        if (!res.ok) {
-            const errorText = await res.text();
-            throw new Error(`OpenAI API Error: ${res.status} ${errorText}`);
-        }
+/**
+ * Streams a `/chat/completions` response from any server speaking the OpenAI protocol, retrying transient errors.
+ * The key is optional since local servers (Ollama, LM Studio) usually don't check it.
+ */
+export function streamChatCompletions(
+    baseUrl: string,
+    apiKey: string | undefined,
+    body: Record<string, unknown>,
+    options: Pick<ChatOptions, 'signal' | 'onUsage' | 'onRetry'>,
+    providerName = 'OpenAI'
+): AsyncGenerator<string, void, unknown> {
+    return withRetry(() => streamOnce(baseUrl, apiKey, body, providerName, options.signal, options.onUsage), options);
+}
 
-        if (!res.body) throw new Error('No response body');
+async function* streamOnce(
+    baseUrl: string,
+    apiKey: string | undefined,
+    body: Record<string, unknown>,
+    providerName: string,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<string, void, unknown> {
+    const res = await providerFetch(providerName, `${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        signal,
+        body: JSON.stringify({ ...body, stream: true, stream_options: { include_usage: true } })
+    });
 
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
+    if (!res.ok) throw await responseError(providerName, res);
 
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
+    if (!res.body) throw new Error('No response body');
 
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
+    for await (const sse of parseSSE(res.body)) {
+        if (sse.data === '[DONE]') return;
+        const chunk = parseEventData<ChatCompletionChunk>(sse, providerName);
 
-            for (const line of lines) {
-                if (line.trim() === '') continue;
-                if (line.trim() === 'data: [DONE]') return;
-                if (line.startsWith('data: ')) {
-                    try {
-                        const json = JSON.parse(line.slice(6));
-                        const content = json.choices[0]?.delta?.content;
-                        if (content) yield content;
-                    } catch (e) {
-                        console.warn('Parse error', e);
-                    }
-                }
-            }
+        // Errors after the stream started arrive as a regular data event
+        if (chunk.error) {
+            throw new ProviderError(providerName, chunk.error.message || 'Stream error', { type: chunk.error.type || chunk.error.code });
         }
+        if (chunk.usage) {
+            onUsage?.({ inputTokens: chunk.usage.prompt_tokens || 0, outputTokens: chunk.usage.completion_tokens || 0 });
+        }
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) yield content;
     }
-};
+}
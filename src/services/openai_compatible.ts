@@ -0,0 +1,83 @@
+import { type LLMService, type SummaryOptions, type ChatMessage, type ChatOptions, constructPrompt } from './llm';
+import { responseFormat, streamChatCompletions } from './openai';
+
+/**
+ * Normalizes a user-entered server address to the `/v1` API root,
+ * e.g. `localhost:11434` -> `http://localhost:11434/v1`.
+ */
+export function normalizeBaseUrl(input: string): string {
+    let url = input.trim().replace(/\/+$/, '');
+    if (!url) return '';
+    if (!/^https?:\/\//i.test(url)) url = `http://${url}`;
+    if (!/\/v1$/.test(url)) url = `${url}/v1`;
+    return url;
+}
+
+/**
+ * Asks for host access to the server's origin. Must be called from a user gesture.
+ */
+export async function requestHostPermission(baseUrl: string): Promise<boolean> {
+    const origin = `${new URL(normalizeBaseUrl(baseUrl)).origin}/*`;
+    if (await chrome.permissions.contains({ origins: [origin] })) return true;
+    return chrome.permissions.request({ origins: [origin] });
+}
+
+/**
+ * Any server implementing the OpenAI REST protocol: Ollama, LM Studio, vLLM, OpenRouter...
+ * The base URL is user-configured and kept in sync from settings.
+ */
+export class OpenAICompatibleService implements LLMService {
+    name = 'OpenAI-Compatible';
+    baseUrl = '';
+
+    setBaseUrl(url: string) {
+        this.baseUrl = normalizeBaseUrl(url);
+    }
+
+    async validateKey(key: string): Promise<boolean> {
+        const models = await this.getModels(key);
+        return models.length > 0;
+    }
+
+    async getModels(apiKey: string): Promise<string[]> {
+        if (!this.baseUrl) return [];
+        try {
+            const res = await fetch(`${this.baseUrl}/models`, {
+                headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+            });
+            if (!res.ok) return [];
+            const data = await res.json();
+            return (data.data as { id: string }[])
+                .map(m => m.id)
+                .filter(id => !id.includes('embed'))
+                .sort((a, b) => a.localeCompare(b));
+        } catch (e) {
+            console.error("Failed to fetch models from OpenAI-compatible server", e);
+            return [];
+        }
+    }
+
+    getContextWindow(): number {
+        // Unknown for arbitrary local models; stay conservative so small defaults (Ollama's num_ctx) aren't overrun
+        return 8_192;
+    }
+
+    async *summarize(text: string, options: SummaryOptions): AsyncGenerator<string, void, unknown> {
+        const prompt = constructPrompt(options, text);
+        yield* this.chat([{ role: 'user', content: prompt }], options);
+    }
+
+    async *chat(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string, void, unknown> {
+        if (!this.baseUrl) throw new Error("No server URL configured for the OpenAI-compatible provider.");
+        yield* streamChatCompletions(this.baseUrl, options.apiKey, {
+            model: options.model,
+            messages: [
+                ...(options.system ? [{ role: 'system', content: options.system }] : []),
+                ...messages
+            ],
+            ...responseFormat(options.responseSchema)
+        }, options, this.name);
+    }
+}
+
+export const OpenAICompatible = new OpenAICompatibleService();
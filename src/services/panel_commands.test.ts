@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendPanelCommand, takePanelCommand, type PanelCommand } from './panel_commands';
+
+describe('panel command hand-off', () => {
+    let session: Record<string, unknown>;
+    const command: PanelCommand = {
+        type: 'summarize-selection',
+        selection: { text: 'Selected words', url: 'https://example.com/a', title: 'A' }
+    };
+
+    beforeEach(() => {
+        session = {};
+        vi.stubGlobal('chrome', {
+            storage: {
+                session: {
+                    get: async (key: string) => (key in session ? { [key]: session[key] } : {}),
+                    set: async (items: Record<string, unknown>) => { Object.assign(session, items); },
+                    remove: async (key: string) => { delete session[key]; }
+                }
+            }
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('is taken exactly once', async () => {
+        await sendPanelCommand(command, 1_000_000);
+        expect(await takePanelCommand(1_000_500)).toEqual(command);
+        expect(await takePanelCommand(1_000_500)).toBeNull();
+    });
+
+    it('keeps only the latest command', async () => {
+        await sendPanelCommand({ type: 'summarize' }, 1_000_000);
+        await sendPanelCommand({ type: 'open-library' }, 1_000_000);
+        expect(await takePanelCommand(1_000_000)).toEqual({ type: 'open-library' });
+    });
+
+    it('drops stale commands', async () => {
+        await sendPanelCommand({ type: 'save' }, 1_000_000);
+        expect(await takePanelCommand(1_000_000 + 5 * 60_000)).toBeNull();
+        expect(session).toEqual({});
+    });
+});
@@ -0,0 +1,44 @@
+import { type PendingSelection } from './selection';
+
+/**
+ * Something the background script asks the side panel to do (keyboard shortcut or context menu).
+ * It travels through `chrome.storage.session` because the panel may only just be opening.
+ */
+export type PanelCommand =
+    | { type: 'summarize' }
+    | { type: 'save' }
+    | { type: 'open-library' }
+    | { type: 'summarize-selection'; selection: PendingSelection };
+
+interface QueuedCommand {
+    command: PanelCommand;
+    createdAt: number;
+}
+
+export const PANEL_COMMAND_KEY = 'panel_command';
+
+/** Names in the manifest's `commands`, mapped to what the panel does. */
+export const SHORTCUT_COMMANDS: Record<string, PanelCommand> = {
+    'summarize-page': { type: 'summarize' },
+    'save-to-library': { type: 'save' },
+    'open-library': { type: 'open-library' }
+};
+
+/** A command older than this was not meant for a panel opened now. */
+const MAX_AGE_MS = 60_000;
+
+export async function sendPanelCommand(command: PanelCommand, now = Date.now()): Promise<void> {
+    const queued: QueuedCommand = { command, createdAt: now };
+    await chrome.storage.session.set({ [PANEL_COMMAND_KEY]: queued });
+}
+
+/**
+ * Returns the queued command, if any and still fresh, and removes it so it runs only once.
+ */
+export async function takePanelCommand(now = Date.now()): Promise<PanelCommand | null> {
+    const result = await chrome.storage.session.get(PANEL_COMMAND_KEY);
+    const queued = result[PANEL_COMMAND_KEY] as QueuedCommand | undefined;
+    if (!queued) return null;
+    await chrome.storage.session.remove(PANEL_COMMAND_KEY);
+    return now - queued.createdAt <= MAX_AGE_MS ? queued.command : null;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { isPdfUrl, itemsToText, parsePdfDate, pdfToText } from './pdf';
+
+describe('isPdfUrl', () => {
+    it('recognizes PDF paths', () => {
+        expect(isPdfUrl('https://example.com/papers/report.PDF')).toBe(true);
+        expect(isPdfUrl('https://example.com/report.pdf?download=1#page=3')).toBe(true);
+        expect(isPdfUrl('file:///home/me/notes.pdf')).toBe(true);
+        expect(isPdfUrl('https://arxiv.org/pdf/2401.12345')).toBe(true);
+        expect(isPdfUrl('https://export.arxiv.org/pdf/2401.12345v2')).toBe(true);
+    });
+
+    it('ignores other pages', () => {
+        expect(isPdfUrl('https://example.com/pdf-tools')).toBe(false);
+        expect(isPdfUrl('https://example.com/pdf/guide')).toBe(false);
+        expect(isPdfUrl('https://example.com/report.pdf.html')).toBe(false);
+        expect(isPdfUrl('chrome-extension://abc/viewer.pdf')).toBe(false);
+        expect(isPdfUrl('not a url')).toBe(false);
+    });
+});
+
+describe('itemsToText', () => {
+    it('keeps line breaks and joins hyphenated words', () => {
+        const items = [
+            { str: 'Sourdough relies on wild', hasEOL: false },
+            { str: ' yeast and bac-', hasEOL: true },
+            { str: 'teria.', hasEOL: true },
+            {},
+            { str: 'Well-known  bakers', hasEOL: true }
+        ];
+        expect(itemsToText(items)).toBe('Sourdough relies on wild yeast and bacteria.\nWell-known bakers');
+    });
+});
+
+describe('parsePdfDate', () => {
+    it('parses dates with and without a time zone', () => {
+        expect(parsePdfDate("D:20240131120000+01'00'")).toBe('2024-01-31T11:00:00.000Z');
+        expect(parsePdfDate('D:20240131120000Z')).toBe('2024-01-31T12:00:00.000Z');
+        expect(parsePdfDate('D:2024')).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('rejects anything else', () => {
+        expect(parsePdfDate(undefined)).toBeUndefined();
+        expect(parsePdfDate('yesterday')).toBeUndefined();
+        expect(parsePdfDate('D:20241399')).toBeUndefined();
+    });
+});
+
+describe('pdfToText', () => {
+    it('marks each page with its number and skips empty pages', () => {
+        const text = pdfToText({
+            pageCount: 3,
+            metadata: {},
+            pages: [
+                { pageNumber: 1, text: 'Introduction' },
+                { pageNumber: 2, text: '' },
+                { pageNumber: 3, text: 'Results' }
+            ]
+        });
+        expect(text).toBe('[p. 1]\nIntroduction\n\n[p. 3]\nResults');
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Chrome's PDF viewer has no DOM for the content script to read, so PDFs are fetched and parsed
+ * with pdf.js in the side panel. pdf.js is loaded on first use; it is large and most pages aren't PDFs.
+ */
+
+export interface PdfPage {
+    pageNumber: number;
+    text: string;
+}
+
+/** The document information dictionary, as far as it is filled in. */
+export interface PdfMetadata {
+    title?: string;
+    author?: string;
+    subject?: string;
+    keywords?: string;
+    /** ISO date. */
+    createdAt?: string;
+}
+
+export interface PdfDocument {
+    pages: PdfPage[];
+    pageCount: number;
+    metadata: PdfMetadata;
+}
+
+// The parts of pdf.js text content items we read; marked-content items have no `str`
+interface TextContentItem {
+    str?: string;
+    hasEOL?: boolean;
+}
+
+export function isPdfUrl(url: string): boolean {
+    try {
+        const { hostname, pathname, protocol } = new URL(url);
+        if (!/^(https?|file):$/.test(protocol)) return false;
+        // arxiv.org/pdf/2401.12345 has no extension; elsewhere such paths are ordinary pages
+        const isArxiv = hostname === 'arxiv.org' || hostname.endsWith('.arxiv.org');
+        return /\.pdf$/i.test(pathname) || (isArxiv && /^\/pdf\/[^/]+$/.test(pathname));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Joins the text items of a page, keeping the line breaks pdf.js detected and dropping the
+ * hyphenation at line ends.
+ */
+export function itemsToText(items: TextContentItem[]): string {
+    let text = '';
+    for (const item of items) {
+        if (item.str === undefined) continue;
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+    }
+    return text
+        .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Dates in PDF metadata look like `D:20240131120000+01'00'`.
+ */
+export function parsePdfDate(value: string | undefined): string | undefined {
+    const match = value?.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+    if (!match) return undefined;
+    const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+    const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(-3, -1).replace("'", '') || '00'}`;
+    const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * The text for the model, each page starting with a `[p. N]` marker it can cite.
+ * Pages without text (scans, figures) are left out.
+ */
+export function pdfToText(doc: PdfDocument): string {
+    return doc.pages
+        .filter(page => page.text)
+        .map(page => `[p. ${page.pageNumber}]\n${page.text}`)
+        .join('\n\n');
+}
+
+/** Added to the prompt for PDFs, so the summary points back to its pages. */
+export const PDF_INSTRUCTIONS = `The text is a PDF document; each page starts with a [p. N] marker.
+Cite the pages that support each point, e.g. "(p. 4)" or "(pp. 4-5)".`;
+
+async function loadPdfjs() {
+    const [pdfjs, worker] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+    ]);
+    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+    return pdfjs;
+}
+
+export async function parsePdf(data: ArrayBuffer): Promise<PdfDocument> {
+    const pdfjs = await loadPdfjs();
+    const pdf = await pdfjs.getDocument({ data, isEvalSupported: false }).promise;
+    try {
+        const pages: PdfPage[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            pages.push({ pageNumber, text: itemsToText(content.items as TextContentItem[]) });
+            page.cleanup();
+        }
+
+        const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+        const fields = info as Record<string, string | undefined>;
+        const metadata: PdfMetadata = {
+            title: fields.Title?.trim() || undefined,
+            author: fields.Author?.trim() || undefined,
+            subject: fields.Subject?.trim() || undefined,
+            keywords: fields.Keywords?.trim() || undefined,
+            createdAt: parsePdfDate(fields.CreationDate)
+        };
+        return { pages, pageCount: pdf.numPages, metadata };
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+/**
+ * Downloads and parses a PDF. The side panel has host permissions for every site, so this works
+ * across origins; `file://` URLs additionally need "Allow access to file URLs".
+ */
+export async function fetchPdf(url: string): Promise<PdfDocument> {
+    let res: Response;
+    try {
+        res = await fetch(url);
+    } catch {
+        throw new Error(url.startsWith('file:')
+            ? 'Cannot read local PDFs. Enable "Allow access to file URLs" for VibeCapsule in chrome://extensions.'
+            : 'Could not download the PDF.');
+    }
+    if (!res.ok) throw new Error(`Could not download the PDF (${res.status})`);
+    const doc = await parsePdf(await res.arrayBuffer());
+    if (!doc.pages.some(page => page.text)) {
+        throw new Error('This PDF has no text layer (it may be a scan), so there is nothing to summarize.');
+    }
+    return doc;
+}
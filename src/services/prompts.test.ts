@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildPageVariables, countWords, duplicatePreset, fillTemplate, BUILT_IN_PRESETS } from './prompts';
+
+describe('fillTemplate', () => {
+    it('replaces all known placeholders and tolerates inner spaces', () => {
+        expect(fillTemplate('{{SITE}}: {{ TITLE }} ({{SITE}})', { SITE: 'example.com', TITLE: 'Post' }))
+            .toBe('example.com: Post (example.com)');
+    });
+
+    it('leaves unknown or missing placeholders untouched', () => {
+        expect(fillTemplate('{{TITEL}} {{URL}}', { TITLE: 'Post' })).toBe('{{TITEL}} {{URL}}');
+    });
+
+    it('does not interpret $ patterns in values', () => {
+        expect(fillTemplate('Title: {{TITLE}}', { TITLE: "Costs $& more $'" })).toBe("Title: Costs $& more $'");
+    });
+});
+
+describe('buildPageVariables', () => {
+    it('derives site, word count and date from the page', () => {
+        const now = new Date('2026-05-01T12:00:00Z');
+        expect(buildPageVariables({ title: 'Post', url: 'https://www.example.com/a?b=1', content: ' one two\n three ' }, now)).toEqual({
+            TITLE: 'Post',
+            URL: 'https://www.example.com/a?b=1',
+            SITE: 'example.com',
+            WORD_COUNT: '3',
+            DATE: now.toLocaleDateString()
+        });
+    });
+
+    it('copes with missing or invalid URLs', () => {
+        expect(buildPageVariables({ url: 'not a url', content: '' }).SITE).toBe('');
+        expect(countWords('')).toBe(0);
+    });
+});
+
+describe('duplicatePreset', () => {
+    it('gives the copy a new id and a unique name', () => {
+        const [tldr] = BUILT_IN_PRESETS;
+        const copy = duplicatePreset(tldr, BUILT_IN_PRESETS);
+        expect(copy).toMatchObject({ name: 'TL;DR (copy)', template: tldr.template });
+        expect(copy.id).not.toBe(tldr.id);
+        expect(duplicatePreset(tldr, [...BUILT_IN_PRESETS, copy]).name).toBe('TL;DR (copy 2)');
+    });
+});
@@ -0,0 +1,96 @@
+export interface PromptPreset {
+    id: string;
+    name: string;
+    template: string;
+    /** Provider and model switched to when the preset is picked; unset keeps the current ones. */
+    provider?: string;
+    model?: string;
+}
+
+export const TEMPLATE_VARIABLES = {
+    LANGUAGE: 'Language to answer in',
+    TITLE: 'Page title',
+    URL: 'Page address',
+    SITE: 'Site name, e.g. example.com',
+    WORD_COUNT: 'Words in the extracted article',
+    DATE: "Today's date"
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+/**
+ * Values for `{{NAME}}` placeholders in prompt templates. `LANGUAGE` is always filled in
+ * from the summary options; the rest come from the extracted page.
+ */
+export type PromptVariables = Partial<Record<TemplateVariable, string>>;
+
+/**
+ * Replaces every known `{{NAME}}` placeholder. Unknown placeholders and missing values are left as-is,
+ * so a typo shows up in the output instead of silently vanishing.
+ */
+export function fillTemplate(template: string, variables: PromptVariables): string {
+    return template.replace(/\{\{\s*([A-Z_]+)\s*\}\}/g, (placeholder, name: string) => {
+        const value = variables[name as TemplateVariable];
+        return value === undefined ? placeholder : value;
+    });
+}
+
+export function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Variables describing the page being summarized.
+ */
+export function buildPageVariables(page: { title?: string; url?: string; content: string }, now = new Date()): PromptVariables {
+    let site = '';
+    try {
+        site = page.url ? new URL(page.url).hostname.replace(/^www\./, '') : '';
+    } catch {
+        // Not a URL (e.g. a local file); leave it empty
+    }
+    return {
+        TITLE: page.title || '',
+        URL: page.url || '',
+        SITE: site,
+        WORD_COUNT: String(countWords(page.content)),
+        DATE: now.toLocaleDateString()
+    };
+}
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+    {
+        id: 'tldr',
+        name: 'TL;DR',
+        template: `Summarize "{{TITLE}}" ({{SITE}}) in {{LANGUAGE}}.
+Start with a title line beginning with '# ', then give a one-sentence TL;DR followed by at most five bullet points.`
+    },
+    {
+        id: 'eli5',
+        name: 'ELI5',
+        template: `Explain the following article to a curious ten-year-old, in {{LANGUAGE}}.
+Start with a title line beginning with '# '. Use short sentences, everyday words and one concrete analogy. Avoid jargon; if a technical term is unavoidable, explain it.`
+    },
+    {
+        id: 'quotes',
+        name: 'Key quotes',
+        template: `Pick the 5 to 8 most important quotes from this article ({{WORD_COUNT}} words, {{URL}}).
+Start with a title line beginning with '# ' in {{LANGUAGE}}. Give each quote verbatim as a Markdown blockquote in its original language, followed by one line in {{LANGUAGE}} on why it matters.`
+    },
+    {
+        id: 'critical',
+        name: 'Critical review',
+        template: `Write a critical review of "{{TITLE}}" in {{LANGUAGE}}.
+Start with a title line beginning with '# '. Cover: the main claim, the evidence offered, weak points or missing counter-arguments, possible bias of {{SITE}}, and an overall verdict on how far to trust it.`
+    }
+];
+
+/**
+ * Copy of a preset with a fresh id, for "Duplicate".
+ */
+export function duplicatePreset(preset: PromptPreset, existing: PromptPreset[]): PromptPreset {
+    const names = new Set(existing.map(p => p.name));
+    let name = `${preset.name} (copy)`;
+    for (let i = 2; names.has(name); i++) name = `${preset.name} (copy ${i})`;
+    return { ...preset, id: crypto.randomUUID(), name };
+}
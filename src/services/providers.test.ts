@@ -0,0 +1,239 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAI } from './openai';
+import { Anthropic } from './anthropic';
+import { Gemini } from './gemini';
+import { ProviderError } from './errors';
+import { type JsonSchema, type LLMService, type SummaryOptions } from './llm';
+import { collect, jsonResponse, mockFetch, randomChunks, seededRandom, streamResponse } from '@/test/streams';
+import openaiStream from './__fixtures__/openai_stream.sse?raw';
+import anthropicStream from './__fixtures__/anthropic_stream.sse?raw';
+import anthropicErrorStream from './__fixtures__/anthropic_error_stream.sse?raw';
+import geminiStream from './__fixtures__/gemini_stream.sse?raw';
+import anthropicToolStream from './__fixtures__/anthropic_tool_stream.sse?raw';
+
+const EXPECTED = '# Résumé\n\n**TL;DR** — 東京の記事 🚀 with a "quote" and a \\ backslash.';
+
+const options: SummaryOptions = { apiKey: 'test-key', language: 'en', model: 'test-model' };
+
+const SEEDS = Array.from({ length: 25 }, (_, i) => i + 1);
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe.each<[string, LLMService, string]>([
+    ['OpenAI', OpenAI, openaiStream],
+    ['Anthropic', Anthropic, anthropicStream],
+    ['Gemini', Gemini, geminiStream],
+    // Gemini terminates lines with CRLF on the wire
+    ['Gemini (CRLF)', Gemini, geminiStream.replace(/\n/g, '\r\n')],
+])('%s summarize()', (_name, service, fixture) => {
+    it('reassembles the recorded stream in one piece', async () => {
+        mockFetch(() => streamResponse([new TextEncoder().encode(fixture)]));
+        expect(await collect(service.summarize('article', options))).toBe(EXPECTED);
+    });
+
+    it.each(SEEDS)('reassembles the recorded stream split at random boundaries (seed %i)', async (seed) => {
+        const random = seededRandom(seed);
+        mockFetch(() => streamResponse(randomChunks(fixture, random, 1 + Math.floor(random() * 48))));
+        expect(await collect(service.summarize('article', options))).toBe(EXPECTED);
+    });
+
+    it('throws on HTTP errors', async () => {
+        mockFetch(() => jsonResponse({ error: { message: 'bad key' } }, 401));
+        await expect(collect(service.summarize('article', options))).rejects.toThrow(/401/);
+    });
+});
+
+describe('request bodies', () => {
+    it('sends the prompt and system message to OpenAI', async () => {
+        const fetchMock = mockFetch(() => streamResponse([new TextEncoder().encode(openaiStream)]));
+        await collect(OpenAI.chat([{ role: 'user', content: 'Hi' }], { ...options, system: 'Be brief' }));
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://api.openai.com/v1/chat/completions');
+        expect(JSON.parse(String(init?.body))).toMatchObject({
+            model: 'test-model',
+            stream: true,
+            messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }]
+        });
+    });
+
+    it('uses the SSE endpoint and "model" role for Gemini', async () => {
+        const fetchMock = mockFetch(() => streamResponse([new TextEncoder().encode(geminiStream)]));
+        await collect(Gemini.chat([
+            { role: 'user', content: 'Q1' },
+            { role: 'assistant', content: 'A1' },
+            { role: 'user', content: 'Q2' }
+        ], options));
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toContain(':streamGenerateContent?alt=sse');
+        expect(JSON.parse(String(init?.body)).contents.map((c: { role: string }) => c.role)).toEqual(['user', 'model', 'user']);
+    });
+});
+
+describe('token usage', () => {
+    it.each<[string, LLMService, string, number, number]>([
+        ['OpenAI', OpenAI, openaiStream, 812, 31],
+        ['Anthropic', Anthropic, anthropicStream, 812, 42],
+        ['Gemini', Gemini, geminiStream, 790, 40],
+    ])('reports the counts from the %s stream', async (_name, service, fixture, inputTokens, outputTokens) => {
+        mockFetch(() => streamResponse([new TextEncoder().encode(fixture)]));
+        const onUsage = vi.fn();
+        await collect(service.summarize('article', { ...options, onUsage }));
+        expect(onUsage).toHaveBeenLastCalledWith({ inputTokens, outputTokens });
+    });
+
+    it('asks OpenAI to include usage in the stream', async () => {
+        const fetchMock = mockFetch(() => streamResponse([new TextEncoder().encode(openaiStream)]));
+        await collect(OpenAI.summarize('article', options));
+        expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body)).stream_options).toEqual({ include_usage: true });
+    });
+});
+
+describe('structured output', () => {
+    const schema: JsonSchema = {
+        type: 'object',
+        properties: { title: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+        required: ['title', 'tags'],
+        additionalProperties: false
+    };
+    const bodyOf = (fetchMock: ReturnType<typeof mockFetch>) => JSON.parse(String(fetchMock.mock.calls[0][1]?.body));
+
+    it('sends a strict json_schema response_format to OpenAI', async () => {
+        const fetchMock = mockFetch(() => streamResponse([new TextEncoder().encode(openaiStream)]));
+        await collect(OpenAI.summarize('article', { ...options, responseSchema: schema }));
+        expect(bodyOf(fetchMock).response_format).toEqual({ type: 'json_schema', json_schema: { name: 'response', strict: true, schema } });
+    });
+
+    it('forces a tool call on Anthropic and streams its JSON input', async () => {
+        const fetchMock = mockFetch(() => streamResponse([new TextEncoder().encode(anthropicToolStream)]));
+        const text = await collect(Anthropic.summarize('article', { ...options, responseSchema: schema }));
+        expect(JSON.parse(text)).toEqual({ title: 'Résumé', tldr: 'Short.' });
+        const body = bodyOf(fetchMock);
+        expect(body.tools[0].input_schema).toEqual(schema);
+        expect(body.tool_choice).toEqual({ type: 'tool', name: body.tools[0].name });
+    });
+
+    it('converts the schema for Gemini', async () => {
+        const fetchMock = mockFetch(() => streamResponse([new TextEncoder().encode(geminiStream)]));
+        await collect(Gemini.summarize('article', { ...options, responseSchema: schema }));
+        expect(bodyOf(fetchMock).generationConfig).toEqual({
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: 'object',
+                required: ['title', 'tags'],
+                properties: { title: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+                propertyOrdering: ['title', 'tags']
+            }
+        });
+    });
+
+    it('sends nothing extra without a schema', async () => {
+        const fetchMock = mockFetch(() => streamResponse([new TextEncoder().encode(openaiStream)]));
+        await collect(OpenAI.summarize('article', options));
+        expect(bodyOf(fetchMock)).not.toHaveProperty('response_format');
+    });
+});
+
+describe('transient errors', () => {
+    const encode = (text: string) => [new TextEncoder().encode(text)];
+
+    it('retries a 429 after Retry-After', async () => {
+        let calls = 0;
+        mockFetch(() => ++calls === 1
+            ? new Response(JSON.stringify({ error: { message: 'Rate limit reached', type: 'requests' } }), { status: 429, headers: { 'retry-after': '0' } })
+            : streamResponse(encode(openaiStream)));
+        const onRetry = vi.fn();
+        expect(await collect(OpenAI.summarize('article', { ...options, onRetry }))).toBe(EXPECTED);
+        expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ kind: 'rate_limited' }), 0, 1);
+    });
+
+    it('retries an Anthropic overloaded_error event that arrives before any text', async () => {
+        let calls = 0;
+        mockFetch(() => streamResponse(encode(++calls === 1
+            ? 'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n'
+            : anthropicStream)));
+        // The first backoff is about a second
+        vi.useFakeTimers();
+        try {
+            const run = collect(Anthropic.summarize('article', options));
+            await vi.runAllTimersAsync();
+            expect(await run).toBe(EXPECTED);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('reports connection failures as network errors', async () => {
+        mockFetch(() => { throw new TypeError('Failed to fetch'); });
+        await expect(collect(Gemini.summarize('article', options))).rejects.toMatchObject({ kind: 'network' });
+    });
+
+    it('does not retry invalid keys', async () => {
+        const fetchMock = mockFetch(() => jsonResponse({ error: { message: 'API key not valid.', status: 'INVALID_ARGUMENT' } }, 400));
+        await expect(collect(Gemini.summarize('article', options))).rejects.toMatchObject({ kind: 'invalid_key' });
+        expect(fetchMock).toHaveBeenCalledOnce();
+    });
+});
+
+describe('stream error events', () => {
+    it('raises Anthropic error events as ProviderError after the partial text', async () => {
+        mockFetch(() => streamResponse([new TextEncoder().encode(anthropicErrorStream)]));
+        const received: string[] = [];
+        const run = async () => {
+            for await (const chunk of Anthropic.summarize('article', options)) received.push(chunk);
+        };
+
+        await expect(run()).rejects.toSatisfy((e) => e instanceof ProviderError && e.type === 'overloaded_error');
+        expect(received.join('')).toBe('# Partial');
+    });
+
+    it('raises OpenAI in-stream errors as ProviderError', async () => {
+        const stream = 'data: {"error":{"message":"Rate limit reached","type":"requests","code":"rate_limit_exceeded"}}\n\n';
+        mockFetch(() => streamResponse([new TextEncoder().encode(stream)]));
+        await expect(collect(OpenAI.summarize('article', options))).rejects.toBeInstanceOf(ProviderError);
+    });
+
+    it('raises blocked Gemini prompts as ProviderError', async () => {
+        const stream = 'data: {"promptFeedback": {"blockReason": "SAFETY"}}\r\n\r\n';
+        mockFetch(() => streamResponse([new TextEncoder().encode(stream)]));
+        await expect(collect(Gemini.summarize('article', options))).rejects.toThrow(/SAFETY/);
+    });
+});
+
+describe('getModels()', () => {
+    it('keeps only chat models for OpenAI, newest first', async () => {
+        mockFetch(() => jsonResponse({
+            data: [
+                { id: 'gpt-4o' }, { id: 'text-embedding-3-small' }, { id: 'o1-mini' },
+                { id: 'gpt-4o-mini' }, { id: 'whisper-1' }, { id: 'o3-mini' }, { id: 'dall-e-3' }
+            ]
+        }));
+        expect(await OpenAI.getModels('sk-test')).toEqual(['o3-mini', 'o1-mini', 'gpt-4o-mini', 'gpt-4o']);
+    });
+
+    it('sorts Anthropic models in reverse order', async () => {
+        mockFetch(() => jsonResponse({
+            data: [{ id: 'claude-3-haiku-20240307' }, { id: 'claude-3-5-sonnet-20241022' }, { id: 'claude-3-5-haiku-20241022' }]
+        }));
+        expect(await Anthropic.getModels('sk-ant-test')).toEqual([
+            'claude-3-haiku-20240307', 'claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022'
+        ]);
+    });
+
+    it('strips the models/ prefix and drops non-Gemini models', async () => {
+        mockFetch(() => jsonResponse({
+            models: [{ name: 'models/gemini-1.5-flash' }, { name: 'models/embedding-001' }, { name: 'models/gemini-2.0-flash' }]
+        }));
+        expect(await Gemini.getModels('key')).toEqual(['gemini-2.0-flash', 'gemini-1.5-flash']);
+    });
+
+    it('returns an empty list on HTTP errors', async () => {
+        mockFetch(() => jsonResponse({ error: 'nope' }, 401));
+        expect(await OpenAI.getModels('sk-bad')).toEqual([]);
+        expect(await Anthropic.getModels('sk-ant-bad')).toEqual([]);
+        expect(await Gemini.getModels('bad')).toEqual([]);
+    });
+});
@@ -0,0 +1,26 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { getSelectedText } from './selection';
+
+describe('getSelectedText', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('reads the document selection', () => {
+        document.body.innerHTML = '<p id="p">Hello <b>bold</b> world</p>';
+        const range = document.createRange();
+        range.selectNodeContents(document.getElementById('p')!);
+        document.getSelection()!.removeAllRanges();
+        document.getSelection()!.addRange(range);
+        expect(getSelectedText(document)).toBe('Hello bold world');
+    });
+
+    it('reads selections inside text fields', () => {
+        document.body.innerHTML = '<textarea>first line\nsecond line</textarea>';
+        const textarea = document.querySelector('textarea')!;
+        textarea.focus();
+        textarea.setSelectionRange(6, 17);
+        expect(getSelectedText(document)).toBe('line\nsecond');
+    });
+});
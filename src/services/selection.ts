@@ -0,0 +1,25 @@
+/**
+ * Text picked with "Summarize selection", passed to the side panel as a panel command.
+ */
+export interface PendingSelection {
+    text: string;
+    url: string;
+    title: string;
+}
+
+export const SUMMARIZE_SELECTION_MENU_ID = 'summarize-selection';
+
+/**
+ * The selected text in a document, including selections inside `<input>` and `<textarea>`,
+ * which `window.getSelection()` does not report.
+ */
+export function getSelectedText(doc: Document): string {
+    const active = doc.activeElement;
+    if (active instanceof HTMLTextAreaElement || (active instanceof HTMLInputElement && /^(text|search|url|email)$/.test(active.type))) {
+        const { selectionStart, selectionEnd, value } = active;
+        if (selectionStart !== null && selectionEnd !== null && selectionEnd > selectionStart) {
+            return value.slice(selectionStart, selectionEnd);
+        }
+    }
+    return doc.getSelection()?.toString() || '';
+}
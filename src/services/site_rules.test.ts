@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { findSiteRule, isValidSelector, matchesPattern, selectorFor, type SiteRule } from './site_rules';
+
+describe('matchesPattern', () => {
+    it('matches a domain and its subdomains', () => {
+        expect(matchesPattern('example.com', 'https://example.com/a')).toBe(true);
+        expect(matchesPattern('example.com', 'https://www.example.com/a')).toBe(true);
+        expect(matchesPattern('example.com', 'https://wiki.example.com/a')).toBe(true);
+        expect(matchesPattern('www.example.com', 'https://example.com/a')).toBe(true);
+        expect(matchesPattern('example.com', 'https://notexample.com/a')).toBe(false);
+        expect(matchesPattern('wiki.example.com', 'https://example.com/a')).toBe(false);
+    });
+
+    it('matches URL patterns with wildcards', () => {
+        expect(matchesPattern('https://example.com/news/*', 'https://example.com/news/2024/story')).toBe(true);
+        expect(matchesPattern('https://example.com/news/*', 'https://example.com/blog/story')).toBe(false);
+        expect(matchesPattern('*.example.com/wiki/*', 'https://docs.example.com/wiki/Home')).toBe(true);
+        expect(matchesPattern('example.com/a+b/*', 'http://example.com/a+b/c')).toBe(true);
+    });
+
+    it('ignores empty patterns and invalid URLs', () => {
+        expect(matchesPattern('  ', 'https://example.com/')).toBe(false);
+        expect(matchesPattern('example.com', 'not a url')).toBe(false);
+    });
+});
+
+describe('findSiteRule', () => {
+    it('returns the first matching rule', () => {
+        const rules: SiteRule[] = [
+            { id: '1', pattern: 'https://example.com/news/*', include: '.story', exclude: '' },
+            { id: '2', pattern: 'example.com', include: '', exclude: '#comments' }
+        ];
+        expect(findSiteRule(rules, 'https://example.com/news/1')?.id).toBe('1');
+        expect(findSiteRule(rules, 'https://example.com/about')?.id).toBe('2');
+        expect(findSiteRule(rules, 'https://other.org/')).toBeUndefined();
+    });
+});
+
+describe('isValidSelector', () => {
+    it('accepts selector lists and rejects broken ones', () => {
+        expect(isValidSelector('#comments, .related > a')).toBe(true);
+        expect(isValidSelector('')).toBe(true);
+        expect(isValidSelector('div[')).toBe(false);
+    });
+});
+
+describe('selectorFor', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('stops at the nearest id', () => {
+        document.body.innerHTML = '<div id="content"><div class="post"><p class="lead">Hi</p></div></div>';
+        const lead = document.querySelector('.lead')!;
+        expect(selectorFor(lead)).toBe('p.lead');
+        document.body.insertAdjacentHTML('beforeend', '<p class="lead">Again</p>');
+        expect(selectorFor(lead)).toBe('div.post > p.lead');
+        document.body.insertAdjacentHTML('beforeend', '<div class="post"><p class="lead">More</p></div>');
+        expect(selectorFor(lead)).toBe('#content > div.post > p.lead');
+    });
+
+    it('skips generated class names', () => {
+        document.body.innerHTML = '<section class="css-1a2b3c comments Comments__list__x9f2k"></section>';
+        expect(selectorFor(document.querySelector('section')!)).toBe('section.comments');
+    });
+
+    it('produces selectors that find the element again', () => {
+        document.body.innerHTML = '<main><article class="entry"><div class="body"><p>One</p></div></article><article class="entry"><div class="body"><p>Two</p></div></article></main>';
+        const body = document.querySelectorAll('.body')[1];
+        const selector = selectorFor(body);
+        expect(document.querySelectorAll(selector)).toContain(body);
+    });
+});
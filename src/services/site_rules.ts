@@ -0,0 +1,83 @@
+/**
+ * How to extract the content of a site Readability gets wrong: which elements hold the text,
+ * which to leave out (comments, related links), and optionally the prompt preset to use there.
+ */
+export interface SiteRule {
+    id: string;
+    /**
+     * A domain, matching its subdomains too (`example.com`), or a URL pattern with `*`
+     * wildcards (`https://wiki.example.com/pages/*`).
+     */
+    pattern: string;
+    /** CSS selector list of the elements holding the content; empty lets Readability find it. */
+    include: string;
+    /** CSS selector list of elements to leave out. */
+    exclude: string;
+    /** Prompt preset used on matching pages instead of the selected one. */
+    presetId?: string;
+}
+
+export const SITE_RULES_KEY = 'site_rules';
+
+export function matchesPattern(pattern: string, url: string): boolean {
+    const trimmed = pattern.trim();
+    if (!trimmed) return false;
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return false;
+    }
+
+    if (!/[/*]/.test(trimmed)) {
+        const domain = trimmed.toLowerCase().replace(/^www\./, '');
+        const host = parsed.hostname.replace(/^www\./, '');
+        return host === domain || host.endsWith(`.${domain}`);
+    }
+
+    const regex = trimmed.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    // Patterns without a scheme match either
+    const withScheme = /^[a-z][\w+.-]*:/i.test(trimmed) ? regex : `[a-z][\\w+.-]*://${regex}`;
+    return new RegExp(`^${withScheme}$`, 'i').test(url);
+}
+
+/** The first rule matching the URL, in the order they are listed in settings. */
+export function findSiteRule(rules: SiteRule[], url: string): SiteRule | undefined {
+    return rules.find(rule => matchesPattern(rule.pattern, url));
+}
+
+export function isValidSelector(selector: string): boolean {
+    if (!selector.trim()) return true;
+    try {
+        document.createDocumentFragment().querySelector(selector);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Class names generated by CSS-in-JS tools and CSS modules change between deploys
+const isStableClass = (name: string) =>
+    /^[a-z][\w-]*$/i.test(name) && name.length <= 30 && !/\d{3}|^(css|sc|jsx|svelte)-|__(?=[a-z\d]*\d)[a-z\d]{5,}$/i.test(name);
+
+/**
+ * A selector for an element picked on the page, meant to match the same region on the site's
+ * other pages: ids and class names over positions, as short as stays unique on this page.
+ */
+export function selectorFor(element: Element): string {
+    const doc = element.ownerDocument;
+    const parts: string[] = [];
+    let current: Element | null = element;
+    while (current && current !== doc.body && current !== doc.documentElement) {
+        // Only plain identifiers are used, so nothing needs escaping
+        if (current.id && /^[a-z][\w-]*$/i.test(current.id)) {
+            parts.unshift(`#${current.id}`);
+            break;
+        }
+        const classes = [...current.classList].filter(isStableClass).slice(0, 2);
+        parts.unshift(current.tagName.toLowerCase() + classes.map(c => `.${c}`).join(''));
+        if (doc.querySelectorAll(parts.join(' > ')).length === 1) break;
+        current = current.parentElement;
+    }
+    return parts.join(' > ') || element.tagName.toLowerCase();
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseSSE, type SSEEvent } from './sse';
+import { randomChunks, seededRandom, streamResponse } from '@/test/streams';
+
+async function parse(raw: string, chunks?: Uint8Array[]): Promise<SSEEvent[]> {
+    const body = streamResponse(chunks || [new TextEncoder().encode(raw)]).body!;
+    const events: SSEEvent[] = [];
+    for await (const event of parseSSE(body)) events.push(event);
+    return events;
+}
+
+describe('parseSSE', () => {
+    it('joins multi-line data and reads event names', async () => {
+        expect(await parse('event: update\ndata: line 1\ndata: line 2\n\n')).toEqual([
+            { event: 'update', data: 'line 1\nline 2', id: undefined }
+        ]);
+    });
+
+    it('ignores comments and events without data', async () => {
+        expect(await parse(': keep-alive\n\nevent: ping\n\ndata: x\n\n')).toEqual([
+            { event: 'message', data: 'x', id: undefined }
+        ]);
+    });
+
+    it('handles CRLF and lone CR line endings', async () => {
+        const events = await parse('data: a\r\n\r\ndata: b\r\rdata:c\n\n');
+        expect(events.map(e => e.data)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('strips only one leading space and keeps the last id', async () => {
+        expect(await parse('id: 7\ndata:  indented\n\n')).toEqual([
+            { event: 'message', data: ' indented', id: '7' }
+        ]);
+    });
+
+    it('dispatches a trailing event without a final blank line', async () => {
+        expect((await parse('data: last')).map(e => e.data)).toEqual(['last']);
+    });
+
+    it('gives the same events for any chunking', async () => {
+        const raw = 'event: a\r\ndata: {"text":"日本語 🚀 \\\\"}\r\n\r\n: comment\ndata: two\ndata: lines\n\n';
+        const expected = await parse(raw);
+        for (let seed = 1; seed <= 50; seed++) {
+            expect(await parse(raw, randomChunks(raw, seededRandom(seed), 5))).toEqual(expected);
+        }
+    });
+});
@@ -0,0 +1,95 @@
+import { ProviderError } from './errors';
+
+export interface SSEEvent {
+    /** Event name from `event:` lines, `message` when none was given. */
+    event: string;
+    /** All `data:` lines of the event, joined with newlines. */
+    data: string;
+    id?: string;
+}
+
+/**
+ * Decodes a `text/event-stream` body into events, following the WHATWG server-sent events format:
+ * LF, CR and CRLF line endings, multi-line `data:`, `event:` and `id:` fields, and `:` comments.
+ * The stream is cancelled when the consumer stops iterating.
+ */
+export async function* parseSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent, void, unknown> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    // A chunk may end between the CR and LF of a CRLF pair
+    let skipLeadingLF = false;
+
+    let eventName = '';
+    let dataLines: string[] = [];
+    let lastId: string | undefined;
+
+    const dispatch = (): SSEEvent | null => {
+        const event = dataLines.length > 0
+            ? { event: eventName || 'message', data: dataLines.join('\n'), id: lastId }
+            : null;
+        eventName = '';
+        dataLines = [];
+        return event;
+    };
+
+    const processLine = (line: string): SSEEvent | null => {
+        if (line === '') return dispatch();
+        if (line.startsWith(':')) return null; // Comment / keep-alive
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        if (field === 'data') dataLines.push(value);
+        else if (field === 'event') eventName = value;
+        else if (field === 'id' && !value.includes('\0')) lastId = value;
+        // `retry:` and unknown fields are ignored
+        return null;
+    };
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            if (skipLeadingLF && buffer.startsWith('\n')) buffer = buffer.slice(1);
+            skipLeadingLF = false;
+
+            let match: RegExpExecArray | null;
+            const lineBreak = /\r\n|\r|\n/g;
+            let start = 0;
+            while ((match = lineBreak.exec(buffer)) !== null) {
+                // A trailing CR might be the first half of a CRLF split across chunks
+                if (match[0] === '\r' && match.index === buffer.length - 1) {
+                    skipLeadingLF = true;
+                }
+                const event = processLine(buffer.slice(start, match.index));
+                start = match.index + match[0].length;
+                if (event) yield event;
+            }
+            buffer = buffer.slice(start);
+        }
+
+        // Be lenient with servers that don't terminate the last event with a blank line
+        buffer += decoder.decode();
+        if (buffer) processLine(buffer);
+        const last = dispatch();
+        if (last) yield last;
+    } finally {
+        reader.cancel().catch(() => { });
+    }
+}
+
+/**
+ * Parses the JSON payload of an event, raising a ProviderError for malformed data.
+ */
+export function parseEventData<T>(event: SSEEvent, provider: string): T {
+    try {
+        return JSON.parse(event.data) as T;
+    } catch {
+        throw new ProviderError(provider, `Malformed stream data: ${event.data.slice(0, 200)}`, { type: 'invalid_response' });
+    }
+}
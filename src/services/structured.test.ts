@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseStructuredSummary, structuredToMarkdown, StructuredSummaryError, type StructuredSummary } from './structured';
+
+const summary: StructuredSummary = {
+    title: 'Rust async',
+    tldr: 'Futures are lazy.',
+    takeaways: ['Nothing runs until polled.', 'Pick one runtime.'],
+    actionItems: [],
+    entities: ['Tokio', 'Rust'],
+    sentiment: 'positive'
+};
+
+describe('parseStructuredSummary', () => {
+    it('parses a plain JSON reply', () => {
+        expect(parseStructuredSummary(JSON.stringify(summary))).toEqual(summary);
+    });
+
+    it('ignores code fences and chatter around the object', () => {
+        const reply = 'Sure! Here it is:\n```json\n' + JSON.stringify(summary, null, 2) + '\n```\nHope this helps.';
+        expect(parseStructuredSummary(reply)).toEqual(summary);
+    });
+
+    it('fills in missing lists and normalizes sentiment', () => {
+        expect(parseStructuredSummary('{"title": "T", "tldr": "S", "takeaways": "Only one", "action_items": ["Do it"], "sentiment": "Very happy"}'))
+            .toEqual({ title: 'T', tldr: 'S', takeaways: ['Only one'], actionItems: ['Do it'], entities: [], sentiment: 'neutral' });
+    });
+
+    it('rejects replies without JSON, with broken JSON or without required fields', () => {
+        expect(() => parseStructuredSummary('No idea.')).toThrow(StructuredSummaryError);
+        expect(() => parseStructuredSummary('{"title": "T", "tldr": }')).toThrow(/invalid JSON/);
+        expect(() => parseStructuredSummary('{"title": "T"}')).toThrow(/title or TL;DR/);
+    });
+});
+
+describe('structuredToMarkdown', () => {
+    it('renders the title as a heading and skips empty sections', () => {
+        const markdown = structuredToMarkdown(summary);
+        expect(markdown.startsWith('# Rust async\n\n**TL;DR:** Futures are lazy.')).toBe(true);
+        expect(markdown).toContain('## Key Takeaways\n\n- Nothing runs until polled.\n- Pick one runtime.');
+        expect(markdown).not.toContain('Action Items');
+        expect(markdown).toContain('**Mentioned:** Tokio, Rust');
+    });
+});
@@ -0,0 +1,122 @@
+import { type JsonSchema } from './llm';
+
+export type Sentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+export interface StructuredSummary {
+    title: string;
+    tldr: string;
+    takeaways: string[];
+    actionItems: string[];
+    /** People, organizations, products and places the article is about. */
+    entities: string[];
+    sentiment: Sentiment;
+}
+
+const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative', 'mixed'];
+
+const stringList = (description: string): JsonSchema => ({ type: 'array', description, items: { type: 'string' } });
+
+export const SUMMARY_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', description: 'Clear title for the article' },
+        tldr: { type: 'string', description: 'One-sentence summary' },
+        takeaways: stringList('Key takeaways, one sentence each'),
+        actionItems: stringList('Concrete action items or conclusions; empty if there are none'),
+        entities: stringList('Main people, organizations, products or places mentioned'),
+        sentiment: { type: 'string', enum: SENTIMENTS, description: 'Overall tone of the article' }
+    },
+    required: ['title', 'tldr', 'takeaways', 'actionItems', 'entities', 'sentiment'],
+    additionalProperties: false
+};
+
+export const STRUCTURED_PROMPT = `
+You are a professional content distiller. Summarize the following article in {{LANGUAGE}}.
+`;
+
+/**
+ * Appended to the prompt so models without native structured output (Gemini Nano,
+ * some local servers) still know the exact shape to produce.
+ */
+export const STRUCTURED_INSTRUCTIONS = `
+Respond with a single JSON object and nothing else, with these fields:
+- "title": clear title for the article
+- "tldr": one-sentence summary
+- "takeaways": array of key takeaways, one sentence each
+- "actionItems": array of action items or conclusions (may be empty)
+- "entities": array of the main people, organizations, products or places
+- "sentiment": one of "positive", "neutral", "negative", "mixed"
+All text values must be in {{LANGUAGE}}.
+`;
+
+export class StructuredSummaryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StructuredSummaryError';
+    }
+}
+
+/**
+ * The JSON object in a model reply, ignoring code fences and any chatter around it.
+ */
+function extractJsonObject(text: string): string {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) throw new StructuredSummaryError('The model did not return a JSON object.');
+    return text.slice(start, end + 1);
+}
+
+function toStringList(value: unknown): string[] {
+    if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+    if (!Array.isArray(value)) return [];
+    return value
+        .map(item => typeof item === 'string' ? item : typeof item === 'object' && item ? Object.values(item).join(': ') : String(item))
+        .map(item => item.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Parses and validates a structured reply. Missing lists become empty and an unknown
+ * sentiment becomes neutral, but a reply without a title or TL;DR is rejected.
+ */
+export function parseStructuredSummary(text: string): StructuredSummary {
+    let data: Record<string, unknown>;
+    try {
+        data = JSON.parse(extractJsonObject(text));
+    } catch (e) {
+        if (e instanceof StructuredSummaryError) throw e;
+        throw new StructuredSummaryError('The model returned invalid JSON.');
+    }
+    return toStructuredSummary(data);
+}
+
+/**
+ * Validates an already parsed structured summary, with the same rules as parseStructuredSummary.
+ */
+export function toStructuredSummary(data: Record<string, unknown>): StructuredSummary {
+    const title = typeof data.title === 'string' ? data.title.trim() : '';
+    const tldr = typeof data.tldr === 'string' ? data.tldr.trim() : '';
+    if (!title || !tldr) throw new StructuredSummaryError('The summary is missing its title or TL;DR.');
+
+    const sentiment = typeof data.sentiment === 'string' ? data.sentiment.toLowerCase() : '';
+    return {
+        title,
+        tldr,
+        takeaways: toStringList(data.takeaways),
+        actionItems: toStringList(data.actionItems ?? data.action_items),
+        entities: toStringList(data.entities),
+        sentiment: SENTIMENTS.includes(sentiment as Sentiment) ? sentiment as Sentiment : 'neutral'
+    };
+}
+
+/**
+ * Markdown version of a structured summary, for copying, chat context and exports.
+ */
+export function structuredToMarkdown(summary: StructuredSummary): string {
+    const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+    const sections = [`# ${summary.title}`, `**TL;DR:** ${summary.tldr}`];
+    if (summary.takeaways.length) sections.push(`## Key Takeaways\n\n${list(summary.takeaways)}`);
+    if (summary.actionItems.length) sections.push(`## Action Items\n\n${list(summary.actionItems)}`);
+    if (summary.entities.length) sections.push(`**Mentioned:** ${summary.entities.join(', ')}`);
+    return sections.join('\n\n');
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { buildCacheKey, normalizeUrl, pruneEntries, type CachedSummary } from './summary_cache';
+
+describe('normalizeUrl', () => {
+    it('drops hash, tracking params and trailing slash', () => {
+        expect(normalizeUrl('https://Example.com/post/?utm_source=x&b=2&a=1#section'))
+            .toBe('https://example.com/post?a=1&b=2');
+    });
+
+    it('keeps the root path', () => {
+        expect(normalizeUrl('https://example.com/')).toBe('https://example.com/');
+    });
+
+    it('returns invalid URLs unchanged', () => {
+        expect(normalizeUrl('not a url')).toBe('not a url');
+    });
+});
+
+describe('buildCacheKey', () => {
+    const parts = { url: 'https://example.com/a', content: 'Body', provider: 'openai', model: 'gpt-4o-mini', prompt: 'en\nSummarize' };
+
+    it('is stable for equivalent URLs', async () => {
+        expect(await buildCacheKey(parts)).toBe(await buildCacheKey({ ...parts, url: 'https://example.com/a/#top' }));
+    });
+
+    it('changes with content, model and prompt', async () => {
+        const key = await buildCacheKey(parts);
+        expect(await buildCacheKey({ ...parts, content: 'Edited body' })).not.toBe(key);
+        expect(await buildCacheKey({ ...parts, model: 'gpt-4o' })).not.toBe(key);
+        expect(await buildCacheKey({ ...parts, prompt: 'en\nELI5' })).not.toBe(key);
+    });
+});
+
+describe('pruneEntries', () => {
+    const entry = (createdAt: string): CachedSummary => ({ summary: 's', url: 'u', provider: 'p', model: 'm', createdAt });
+    const now = new Date('2026-03-31T00:00:00Z').getTime();
+    const entries = {
+        old: entry('2026-01-01T00:00:00Z'),
+        mid: entry('2026-03-20T00:00:00Z'),
+        new: entry('2026-03-30T00:00:00Z')
+    };
+
+    it('drops expired entries', () => {
+        expect(Object.keys(pruneEntries(entries, { maxEntries: 10, ttlDays: 30 }, now))).toEqual(['new', 'mid']);
+    });
+
+    it('keeps everything when expiry is disabled, newest first up to the limit', () => {
+        expect(Object.keys(pruneEntries(entries, { maxEntries: 2, ttlDays: 0 }, now))).toEqual(['new', 'mid']);
+    });
+});
@@ -0,0 +1,106 @@
+import { type StructuredSummary } from './structured';
+
+export interface CachedSummary {
+    summary: string;
+    structured?: StructuredSummary;
+    url: string;
+    provider: string;
+    model: string;
+    createdAt: string;
+}
+
+export interface CacheSettings {
+    maxEntries: number;
+    /** Entries older than this are ignored and pruned. 0 keeps them forever. */
+    ttlDays: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+    maxEntries: 200,
+    ttlDays: 30
+};
+
+const STORAGE_KEY = 'summary_cache';
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+/**
+ * Normalizes a page URL so trivial differences (hash, tracking params, param order,
+ * trailing slash, host case) map to the same cache entry.
+ */
+export function normalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        parsed.hash = '';
+        const params = [...parsed.searchParams.entries()]
+            .filter(([name]) => !TRACKING_PARAMS.test(name))
+            .sort(([a], [b]) => a.localeCompare(b));
+        parsed.search = new URLSearchParams(params).toString();
+        const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : parsed.pathname;
+        return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+    } catch {
+        return url;
+    }
+}
+
+export async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Cache key for a summary: the same page content, summarized by the same model with the same prompt.
+ */
+export async function buildCacheKey(parts: { url: string; content: string; provider: string; model: string; prompt: string }): Promise<string> {
+    const contentHash = await sha256(parts.content);
+    return sha256([normalizeUrl(parts.url), contentHash, parts.provider, parts.model, parts.prompt].join('\n'));
+}
+
+function isExpired(entry: CachedSummary, settings: CacheSettings, now: number): boolean {
+    if (!settings.ttlDays) return false;
+    return now - new Date(entry.createdAt).getTime() > settings.ttlDays * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Drops expired entries and keeps only the newest `maxEntries`.
+ */
+export function pruneEntries(entries: Record<string, CachedSummary>, settings: CacheSettings, now = Date.now()): Record<string, CachedSummary> {
+    const kept = Object.entries(entries)
+        .filter(([, entry]) => !isExpired(entry, settings, now))
+        .sort(([, a], [, b]) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, Math.max(0, settings.maxEntries));
+    return Object.fromEntries(kept);
+}
+
+async function readEntries(): Promise<Record<string, CachedSummary>> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return (result[STORAGE_KEY] as Record<string, CachedSummary>) || {};
+}
+
+export async function getCachedSummary(key: string, settings: CacheSettings): Promise<CachedSummary | null> {
+    const entry = (await readEntries())[key];
+    if (!entry || isExpired(entry, settings, Date.now())) return null;
+    return entry;
+}
+
+/**
+ * Latest cached summary for a page, whatever model or prompt produced it.
+ */
+export async function findCachedSummaryByUrl(url: string, settings: CacheSettings): Promise<CachedSummary | null> {
+    const target = normalizeUrl(url);
+    const now = Date.now();
+    const matches = Object.values(await readEntries())
+        .filter(entry => normalizeUrl(entry.url) === target && !isExpired(entry, settings, now))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return matches[0] || null;
+}
+
+export async function putCachedSummary(key: string, entry: CachedSummary, settings: CacheSettings): Promise<void> {
+    const entries = await readEntries();
+    entries[key] = entry;
+    await chrome.storage.local.set({ [STORAGE_KEY]: pruneEntries(entries, settings) });
+}
+
+export async function clearSummaryCache(): Promise<void> {
+    await chrome.storage.local.remove(STORAGE_KEY);
+}
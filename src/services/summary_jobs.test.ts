@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    createJob, hostSummaryJobs, latestJobForTab, pruneJobs, runSummaryJob, SUMMARY_JOBS_KEY, SUMMARY_JOBS_PORT,
+    type JobProgress, type JobsCommand, type JobsMessage, type SummaryJob, type SummaryJobRequest
+} from './summary_jobs';
+import { ProviderError } from './errors';
+import { type LLMService } from './llm';
+
+const request: SummaryJobRequest = {
+    tabId: 7,
+    url: 'https://example.com/bread',
+    title: 'Bread',
+    content: 'Flour, water, salt and time.',
+    page: { method: 'readability' },
+    chain: [{ provider: 'anthropic', model: 'claude-3-5-haiku-20241022', apiKey: 'sk-ant' }, { provider: 'openai', model: 'gpt-4o-mini', apiKey: 'sk' }],
+    language: 'en',
+    prompt: 'Summarize.',
+    variables: {},
+    structured: false,
+    compatibleBaseUrl: '',
+    pricing: {},
+    cache: { key: 'cache-key', settings: { maxEntries: 10, ttlDays: 0 } }
+};
+
+/** A service streaming fixed chunks, or failing before the first one. */
+function fakeService(name: string, chunks: string[], error?: () => Error): LLMService {
+    async function* stream(signal?: AbortSignal) {
+        if (error) throw error();
+        for (const chunk of chunks) {
+            if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+            yield chunk;
+        }
+    }
+    return {
+        name,
+        validateKey: async () => true,
+        getModels: async () => [],
+        getContextWindow: () => 8000,
+        summarize: (_text, o) => stream(o.signal),
+        chat: (_messages, o) => stream(o.signal)
+    };
+}
+
+const overloaded = () => new ProviderError('Anthropic', 'Overloaded', { type: 'overloaded_error' });
+
+let local: Record<string, unknown>;
+let session: Record<string, unknown>;
+let connect: ((port: chrome.runtime.Port) => void) | null;
+
+beforeEach(() => {
+    local = {};
+    session = {};
+    connect = null;
+    const area = (items: Record<string, unknown>) => ({
+        get: async (key: string) => (key in items ? { [key]: items[key] } : {}),
+        set: async (values: Record<string, unknown>) => { Object.assign(items, values); }
+    });
+    vi.stubGlobal('chrome', {
+        storage: { local: area(local), session: area(session) },
+        runtime: {
+            getPlatformInfo: async () => ({}),
+            onConnect: { addListener: (listener: (port: chrome.runtime.Port) => void) => { connect = listener; } }
+        }
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('runSummaryJob()', () => {
+    it('streams the summary, records usage and caches the result', async () => {
+        const updates: JobProgress[] = [];
+        const services = { anthropic: fakeService('Anthropic', ['# Bread', '\n\nBake it.']) };
+        const result = await runSummaryJob(request, services, p => updates.push(p), new AbortController().signal);
+
+        expect(result).toMatchObject({ status: 'done', summary: '# Bread\n\nBake it.', source: { provider: 'anthropic' } });
+        expect(result.usage).toMatchObject({ estimated: true });
+        expect(updates.map(u => u.summary)).toContain('# Bread');
+        expect(local.usage_ledger).toBeDefined();
+        expect(local.summary_cache).toMatchObject({ 'cache-key': { summary: '# Bread\n\nBake it.', provider: 'anthropic' } });
+    });
+
+    it('falls back and reports which provider wrote the summary', async () => {
+        const updates: JobProgress[] = [];
+        const services = {
+            anthropic: fakeService('Anthropic', [], overloaded),
+            openai: fakeService('OpenAI', ['From OpenAI'])
+        };
+        const result = await runSummaryJob(request, services, p => updates.push(p), new AbortController().signal);
+        expect(result).toMatchObject({ status: 'done', summary: 'From OpenAI', source: { provider: 'openai', model: 'gpt-4o-mini' } });
+        expect(updates.some(u => u.notice?.includes('Switching from Anthropic to OpenAI'))).toBe(true);
+        expect(result.notice).toBeUndefined();
+    });
+
+    it('keeps the partial summary when stopped', async () => {
+        const controller = new AbortController();
+        const services = { anthropic: fakeService('Anthropic', ['First part. ', 'Second part.']) };
+        const result = await runSummaryJob(request, services, p => {
+            if (p.summary === 'First part. ') controller.abort();
+        }, controller.signal);
+        expect(result).toMatchObject({ status: 'stopped', summary: 'First part. ' });
+        expect(local.summary_cache).toBeUndefined();
+    });
+
+    it('ends with a described error instead of throwing', async () => {
+        const services = { anthropic: fakeService('Anthropic', [], () => new ProviderError('Anthropic', 'bad key', { status: 401 })) };
+        const result = await runSummaryJob({ ...request, chain: [request.chain[0]] }, services, () => undefined, new AbortController().signal);
+        expect(result.status).toBe('error');
+        expect(result.error).toMatchObject({ message: 'Anthropic rejected the API key.', openSettings: true });
+        expect(result.finishedAt).toBeDefined();
+    });
+
+    it('shows structured summaries only once complete', async () => {
+        const json = JSON.stringify({ title: 'Bread', tldr: 'Bake it.', takeaways: [], actionItems: [], entities: [], sentiment: 'positive' });
+        const updates: JobProgress[] = [];
+        const services = { anthropic: fakeService('Anthropic', [json.slice(0, 20), json.slice(20)]) };
+        const result = await runSummaryJob({ ...request, structured: true }, services, p => updates.push(p), new AbortController().signal);
+        expect(updates.filter(u => u.status === 'running').every(u => u.summary === '')).toBe(true);
+        expect(result.structured?.title).toBe('Bread');
+        expect(result.summary).toContain('# Bread');
+    });
+});
+
+describe('job lists', () => {
+    const job = (id: string, tabId: number, startedAt: string, status: SummaryJob['status'] = 'done'): SummaryJob =>
+        ({ ...createJob(id, { ...request, tabId }, new Date(startedAt)), status });
+
+    it('finds the latest job of a tab', () => {
+        const jobs = [job('a', 1, '2024-05-01T10:00:00Z'), job('b', 1, '2024-05-01T11:00:00Z'), job('c', 2, '2024-05-01T12:00:00Z')];
+        expect(latestJobForTab(jobs, 1)?.id).toBe('b');
+        expect(latestJobForTab(jobs, 3)).toBeUndefined();
+    });
+
+    it('drops the oldest finished jobs but never running ones', () => {
+        const jobs = [
+            job('old-running', 1, '2024-05-01T09:00:00Z', 'running'),
+            job('old', 1, '2024-05-01T10:00:00Z'),
+            job('new', 2, '2024-05-01T11:00:00Z', 'error')
+        ];
+        expect(pruneJobs(jobs, 1).map(j => j.id)).toEqual(['old-running', 'new']);
+    });
+});
+
+describe('hostSummaryJobs()', () => {
+    function fakePort() {
+        const messages: JobsMessage[] = [];
+        let onMessage: ((command: JobsCommand) => void) | null = null;
+        const port = {
+            name: SUMMARY_JOBS_PORT,
+            postMessage: (message: JobsMessage) => messages.push(structuredClone(message)),
+            onMessage: { addListener: (listener: (command: JobsCommand) => void) => { onMessage = listener; } },
+            onDisconnect: { addListener: () => undefined }
+        } as unknown as chrome.runtime.Port;
+        return { port, messages, send: (command: JobsCommand) => onMessage?.(command) };
+    }
+
+    it('runs jobs for connected panels and saves them', async () => {
+        hostSummaryJobs(() => ({ anthropic: fakeService('Anthropic', ['Done.']) }));
+        const panel = fakePort();
+        connect!(panel.port);
+        panel.send({ type: 'start', id: 'job-1', request });
+
+        await vi.waitFor(() => expect(panel.messages.at(-1)).toMatchObject({ type: 'progress', progress: { status: 'done' } }));
+        expect(panel.messages[0]).toEqual({ type: 'snapshot', jobs: [] });
+        expect(panel.messages[1]).toMatchObject({ type: 'job', job: { id: 'job-1', status: 'running', tabId: 7 } });
+        await vi.waitFor(() => expect(session[SUMMARY_JOBS_KEY]).toMatchObject([{ id: 'job-1', status: 'done', summary: 'Done.', content: '' }]));
+    });
+
+    it('restores saved jobs, marking interrupted ones as stopped', async () => {
+        session[SUMMARY_JOBS_KEY] = [{ ...createJob('job-1', request), summary: 'Half' }];
+        hostSummaryJobs(() => ({}));
+        const panel = fakePort();
+        connect!(panel.port);
+        await vi.waitFor(() => expect(panel.messages).toHaveLength(1));
+        expect(panel.messages[0]).toMatchObject({ type: 'snapshot', jobs: [{ id: 'job-1', status: 'stopped', summary: 'Half' }] });
+    });
+});
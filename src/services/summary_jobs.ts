@@ -0,0 +1,348 @@
+import { summarizeChunked, type ChunkProgress } from './chunking';
+import { describeError, type ErrorHelp, type ProviderError } from './errors';
+import { type ExtractionMethod } from './extraction';
+import { streamWithFallback, type FallbackEntry } from './fallback';
+import { type ContentType, type PdfInfo } from './library';
+import { type LLMService } from './llm';
+import { type PromptVariables } from './prompts';
+import { type PendingSelection } from './selection';
+import { parseStructuredSummary, structuredToMarkdown, SUMMARY_SCHEMA, type StructuredSummary } from './structured';
+import { putCachedSummary, type CacheSettings } from './summary_cache';
+import { computeCost, DEFAULT_PRICING, findPrice, meteredService, recordUsage, type MeteredUsage, type ModelPrice } from './usage';
+
+/**
+ * Summaries run as jobs in the background service worker, so closing the side panel or switching
+ * windows doesn't end them. Panels connect over a `chrome.runtime` port named `SUMMARY_JOBS_PORT`:
+ * they get a snapshot of all jobs on connect and every change after that. Jobs are mirrored to
+ * `chrome.storage.session` and survive a restart of the worker as far as they got, though without
+ * the extracted text, which would soon fill the storage quota.
+ */
+export const SUMMARY_JOBS_PORT = 'summary-jobs';
+
+export const SUMMARY_JOBS_KEY = 'summary_jobs';
+
+/** Finished jobs beyond this many are dropped, oldest first. */
+const MAX_FINISHED_JOBS = 20;
+
+/** A provider to try, with the key to use for it. */
+export interface JobProvider extends FallbackEntry {
+    apiKey: string;
+}
+
+/** Where the text came from; shown with the summary, not used by the job. */
+export interface JobPageInfo {
+    contentType?: ContentType;
+    author?: string;
+    pdf?: PdfInfo;
+    method?: ExtractionMethod;
+    selection?: PendingSelection;
+}
+
+/**
+ * Everything a job needs, prepared by the panel: the extracted text, the prompt, and the providers
+ * with their keys. The worker has no access to the page or to the panel's settings state.
+ */
+export interface SummaryJobRequest {
+    tabId: number;
+    url: string;
+    title: string;
+    content: string;
+    page: JobPageInfo;
+    /** The selected provider first, then the fallbacks. */
+    chain: JobProvider[];
+    language: string;
+    prompt: string;
+    variables: PromptVariables;
+    structured: boolean;
+    /** For the OpenAI-compatible provider. */
+    compatibleBaseUrl: string;
+    pricing: Record<string, ModelPrice>;
+    /** Where to cache the finished summary; absent for selections. */
+    cache?: { key: string; settings: CacheSettings };
+}
+
+export type JobStatus = 'running' | 'done' | 'error' | 'stopped';
+
+export interface JobUsage extends MeteredUsage {
+    cost: number;
+}
+
+/** The part of a job that changes while it runs. */
+export interface JobProgress {
+    status: JobStatus;
+    /** Markdown streamed so far; in structured mode, empty until the JSON is complete. */
+    summary: string;
+    structured?: StructuredSummary;
+    /** The provider actually writing the summary, after any fallback. */
+    source?: FallbackEntry;
+    usage?: JobUsage;
+    chunkProgress?: ChunkProgress;
+    /** Retry or fallback in progress. */
+    notice?: string;
+    error?: ErrorHelp;
+    finishedAt?: string;
+}
+
+export interface SummaryJob extends JobProgress {
+    id: string;
+    tabId: number;
+    url: string;
+    title: string;
+    /** Empty for jobs restored after the worker restarted. */
+    content: string;
+    page: JobPageInfo;
+    startedAt: string;
+}
+
+/** From the worker to panels. */
+export type JobsMessage =
+    | { type: 'snapshot'; jobs: SummaryJob[] }
+    | { type: 'job'; job: SummaryJob }
+    | { type: 'progress'; id: string; progress: JobProgress };
+
+/** From a panel to the worker. */
+export type JobsCommand =
+    | { type: 'start'; id: string; request: SummaryJobRequest }
+    | { type: 'stop'; id: string };
+
+export function retryMessage(error: ProviderError, delayMs: number, attempt: number): string {
+    const reason = error.kind === 'rate_limited' ? 'is rate limiting requests' : 'is overloaded';
+    return `${error.provider} ${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})…`;
+}
+
+export function createJob(id: string, request: SummaryJobRequest, now = new Date()): SummaryJob {
+    return {
+        id,
+        tabId: request.tabId,
+        url: request.url,
+        title: request.title,
+        content: request.content,
+        page: request.page,
+        startedAt: now.toISOString(),
+        status: 'running',
+        summary: '',
+        source: request.chain[0] && { provider: request.chain[0].provider, model: request.chain[0].model }
+    };
+}
+
+/** The most recent job started for a tab. */
+export function latestJobForTab(jobs: SummaryJob[], tabId: number): SummaryJob | undefined {
+    return jobs.filter(job => job.tabId === tabId).sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+}
+
+/**
+ * Keeps running jobs and the most recently finished ones.
+ */
+export function pruneJobs(jobs: SummaryJob[], maxFinished = MAX_FINISHED_JOBS): SummaryJob[] {
+    const finished = jobs
+        .filter(job => job.status !== 'running')
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .slice(0, maxFinished);
+    return jobs.filter(job => job.status === 'running' || finished.includes(job));
+}
+
+/**
+ * Streams a summary through the provider chain, reporting every change. Usage is recorded and
+ * the finished summary cached here, so both happen even with no panel open. Never throws:
+ * failures end the job with status `error`, aborts with `stopped`, keeping the text so far.
+ */
+export async function runSummaryJob(
+    request: SummaryJobRequest,
+    services: Record<string, LLMService>,
+    onProgress: (progress: JobProgress) => void,
+    signal: AbortSignal
+): Promise<JobProgress> {
+    const progress: JobProgress = { status: 'running', summary: '' };
+    const emit = () => onProgress({ ...progress });
+    const pricing = { ...DEFAULT_PRICING, ...request.pricing };
+    let raw = '';
+
+    try {
+        const stream = streamWithFallback(request.chain, entry => {
+            progress.source = { provider: entry.provider, model: entry.model };
+            emit();
+            const service = services[entry.provider];
+            if (!service) throw new Error(`Unknown provider: ${entry.provider}`);
+            const metered = meteredService(service, usage => {
+                const cost = entry.provider === 'chrome' ? 0 : computeCost(usage, findPrice(entry.model, pricing));
+                recordUsage(entry.provider, entry.model, usage, cost).catch(e => console.warn('Failed to record usage', e));
+                progress.usage = {
+                    inputTokens: (progress.usage?.inputTokens || 0) + usage.inputTokens,
+                    outputTokens: (progress.usage?.outputTokens || 0) + usage.outputTokens,
+                    cost: (progress.usage?.cost || 0) + cost,
+                    estimated: !!progress.usage?.estimated || usage.estimated
+                };
+                emit();
+            });
+            // Long articles are split and summarized in chunks, then merged
+            return summarizeChunked(metered, request.content, {
+                apiKey: entry.apiKey,
+                language: request.language,
+                model: entry.model,
+                customPrompt: request.prompt,
+                variables: request.variables,
+                responseSchema: request.structured ? SUMMARY_SCHEMA : undefined,
+                onRetry: (error, delayMs, attempt) => {
+                    progress.notice = retryMessage(error, delayMs, attempt);
+                    emit();
+                },
+                signal
+            }, chunkProgress => {
+                progress.chunkProgress = chunkProgress;
+                emit();
+            });
+        }, {
+            signal,
+            onFallback: (from, to, error) => {
+                progress.chunkProgress = undefined;
+                progress.notice = `${describeError(error).message} Switching from ${services[from.provider]?.name} to ${services[to.provider]?.name} (${to.model})…`;
+                emit();
+            }
+        });
+
+        for await (const chunk of stream) {
+            raw += chunk;
+            progress.chunkProgress = undefined;
+            progress.notice = undefined;
+            // Partial JSON isn't worth showing; structured summaries appear once complete
+            if (!request.structured) progress.summary = raw;
+            emit();
+        }
+
+        if (request.structured && raw) {
+            progress.structured = parseStructuredSummary(raw);
+            progress.summary = structuredToMarkdown(progress.structured);
+        }
+        progress.status = 'done';
+
+        if (request.cache && progress.summary && progress.source) {
+            await putCachedSummary(request.cache.key, {
+                summary: progress.summary,
+                structured: progress.structured,
+                url: request.url,
+                // Under the selected provider's key, so a retry doesn't hit the failing provider again
+                provider: progress.source.provider,
+                model: progress.source.model,
+                createdAt: new Date().toISOString()
+            }, request.cache.settings).catch(err => console.warn('Failed to cache summary', err));
+        }
+    } catch (e) {
+        progress.chunkProgress = undefined;
+        progress.notice = undefined;
+        if (signal.aborted) {
+            // Stopped: keep whatever was streamed so far
+            progress.status = 'stopped';
+        } else {
+            console.error(e);
+            progress.status = 'error';
+            progress.error = describeError(e);
+        }
+    }
+
+    progress.finishedAt = new Date().toISOString();
+    emit();
+    return progress;
+}
+
+async function loadJobs(): Promise<SummaryJob[]> {
+    const result = await chrome.storage.session.get(SUMMARY_JOBS_KEY);
+    return (result[SUMMARY_JOBS_KEY] as SummaryJob[]) || [];
+}
+
+// Calling an extension API resets the worker's idle timer; streams can go quiet for longer than it
+const KEEP_ALIVE_MS = 20_000;
+
+/**
+ * Runs jobs for connected panels. Called once from the background service worker; `servicesFor`
+ * gives the services for a request (and is where the compatible server's URL is applied).
+ */
+export function hostSummaryJobs(servicesFor: (request: SummaryJobRequest) => Record<string, LLMService>): void {
+    const jobs = new Map<string, SummaryJob>();
+    const controllers = new Map<string, AbortController>();
+    const ports = new Set<chrome.runtime.Port>();
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    let keepAlive: ReturnType<typeof setInterval> | null = null;
+
+    // Jobs that were running when the worker stopped can't be resumed, but keep their text
+    const ready = loadJobs()
+        .then(saved => {
+            for (const job of saved) {
+                jobs.set(job.id, job.status === 'running'
+                    ? { ...job, status: 'stopped', chunkProgress: undefined, notice: undefined, finishedAt: new Date().toISOString() }
+                    : job);
+            }
+        })
+        .catch(e => console.warn('Failed to load summary jobs', e));
+
+    const send = (port: chrome.runtime.Port, message: JobsMessage) => {
+        try {
+            port.postMessage(message);
+        } catch {
+            // The panel closed
+            ports.delete(port);
+        }
+    };
+    const broadcast = (message: JobsMessage) => ports.forEach(port => send(port, message));
+
+    const save = () => {
+        if (saveTimer) clearTimeout(saveTimer);
+        saveTimer = null;
+        const kept = pruneJobs([...jobs.values()]);
+        for (const id of jobs.keys()) if (!kept.some(job => job.id === id)) jobs.delete(id);
+        const stored = kept.map(job => ({ ...job, content: '' }));
+        chrome.storage.session.set({ [SUMMARY_JOBS_KEY]: stored }).catch(e => console.warn('Failed to save summary jobs', e));
+    };
+    // Streaming changes are saved at most once a second
+    const scheduleSave = () => {
+        if (!saveTimer) saveTimer = setTimeout(save, 1000);
+    };
+
+    const updateKeepAlive = () => {
+        const running = controllers.size > 0;
+        if (running && !keepAlive) keepAlive = setInterval(() => chrome.runtime.getPlatformInfo(), KEEP_ALIVE_MS);
+        if (!running && keepAlive) {
+            clearInterval(keepAlive);
+            keepAlive = null;
+        }
+    };
+
+    const start = (id: string, request: SummaryJobRequest) => {
+        // One summary per tab at a time
+        for (const job of jobs.values()) {
+            if (job.tabId === request.tabId && job.status === 'running') controllers.get(job.id)?.abort();
+        }
+
+        const job = createJob(id, request);
+        const controller = new AbortController();
+        jobs.set(id, job);
+        controllers.set(id, controller);
+        updateKeepAlive();
+        broadcast({ type: 'job', job });
+        save();
+
+        runSummaryJob(request, servicesFor(request), progress => {
+            const current = jobs.get(id);
+            if (!current) return;
+            jobs.set(id, { ...current, ...progress });
+            broadcast({ type: 'progress', id, progress });
+            if (progress.status === 'running') scheduleSave();
+        }, controller.signal).finally(() => {
+            controllers.delete(id);
+            updateKeepAlive();
+            save();
+        });
+    };
+
+    chrome.runtime.onConnect.addListener(port => {
+        if (port.name !== SUMMARY_JOBS_PORT) return;
+        ports.add(port);
+        port.onDisconnect.addListener(() => ports.delete(port));
+        port.onMessage.addListener((command: JobsCommand) => {
+            ready.then(() => {
+                if (command.type === 'start') start(command.id, command.request);
+                if (command.type === 'stop') controllers.get(command.id)?.abort();
+            });
+        });
+        ready.then(() => send(port, { type: 'snapshot', jobs: [...jobs.values()] }));
+    });
+}
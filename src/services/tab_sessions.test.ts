@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { dropNavigatedSession, dropSession, isSamePage } from './tab_sessions';
+
+const sessions = {
+    1: { url: 'https://example.com/a', summary: 'A' },
+    2: { url: 'https://example.com/b#intro', summary: 'B' }
+};
+
+describe('isSamePage', () => {
+    it('ignores anchors but not queries', () => {
+        expect(isSamePage('https://example.com/b#intro', 'https://example.com/b#usage')).toBe(true);
+        expect(isSamePage('https://youtube.com/watch?v=1', 'https://youtube.com/watch?v=2')).toBe(false);
+    });
+});
+
+describe('dropSession', () => {
+    it('removes the session of a closed tab', () => {
+        expect(dropSession(sessions, 1)).toEqual({ 2: sessions[2] });
+        expect(dropSession(sessions, 3)).toBe(sessions);
+    });
+});
+
+describe('dropNavigatedSession', () => {
+    it('drops the session when its tab moves to another page', () => {
+        expect(dropNavigatedSession(sessions, 1, 'https://example.com/c')).toEqual({ 2: sessions[2] });
+    });
+
+    it('keeps it for the same page or tabs without a session', () => {
+        expect(dropNavigatedSession(sessions, 2, 'https://example.com/b')).toBe(sessions);
+        expect(dropNavigatedSession(sessions, 3, 'https://example.com/c')).toBe(sessions);
+    });
+});
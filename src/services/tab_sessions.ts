@@ -0,0 +1,23 @@
+/** Panel state kept per browser tab, by tab id. */
+export type TabSessions<T> = Record<number, T>;
+
+/** Whether two URLs show the same page, ignoring in-page anchors. */
+export function isSamePage(a: string, b: string): boolean {
+    return a.split('#')[0] === b.split('#')[0];
+}
+
+export function dropSession<T>(sessions: TabSessions<T>, tabId: number): TabSessions<T> {
+    if (!(tabId in sessions)) return sessions;
+    const next = { ...sessions };
+    delete next[tabId];
+    return next;
+}
+
+/**
+ * Drops the session of a tab that navigated to another page. Moving between anchors of the same
+ * page keeps it.
+ */
+export function dropNavigatedSession<T extends { url: string }>(sessions: TabSessions<T>, tabId: number, url: string): TabSessions<T> {
+    const session = sessions[tabId];
+    return session && !isSamePage(session.url, url) ? dropSession(sessions, tabId) : sessions;
+}
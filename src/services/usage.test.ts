@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    addUsage, checkSpendingCap, clearUsageLedger, computeCost, findPrice, formatCost, hostUsageLedger, meteredService, monthKey,
+    monthlySpend, recordUsage, reportUsage,
+    DEFAULT_PRICING, type UsageLedger
+} from './usage';
+import { type LLMService, type SummaryOptions } from './llm';
+import { collect } from '@/test/streams';
+
+const options: SummaryOptions = { apiKey: 'test-key', language: 'en', model: 'test-model' };
+
+/** A service that streams fixed chunks and optionally reports usage. */
+function fakeService(chunks: string[], usage?: { inputTokens: number; outputTokens: number }): LLMService {
+    async function* stream(onUsage?: (u: { inputTokens: number; outputTokens: number }) => void) {
+        for (const chunk of chunks) yield chunk;
+        if (usage) onUsage?.(usage);
+    }
+    return {
+        name: 'Fake',
+        validateKey: async () => true,
+        getModels: async () => [],
+        getContextWindow: () => 8000,
+        summarize: (_text, o) => stream(o.onUsage),
+        chat: (_messages, o) => stream(o.onUsage)
+    };
+}
+
+describe('pricing', () => {
+    it('matches the longest model prefix', () => {
+        expect(findPrice('gpt-4o-mini-2024-07-18', DEFAULT_PRICING)).toEqual(DEFAULT_PRICING['gpt-4o-mini']);
+        expect(findPrice('gpt-4o-2024-08-06', DEFAULT_PRICING)).toEqual(DEFAULT_PRICING['gpt-4o']);
+        expect(findPrice('llama3', DEFAULT_PRICING)).toBeNull();
+    });
+
+    it('computes cost per million tokens', () => {
+        expect(computeCost({ inputTokens: 1_000_000, outputTokens: 500_000 }, { input: 2, output: 8 })).toBe(6);
+        expect(computeCost({ inputTokens: 1000, outputTokens: 1000 }, null)).toBe(0);
+    });
+
+    it('formats small amounts with more precision', () => {
+        expect(formatCost(0)).toBe('$0');
+        expect(formatCost(0.00123)).toBe('$0.0012');
+        expect(formatCost(1.5)).toBe('$1.50');
+    });
+});
+
+describe('ledger', () => {
+    const usage = { inputTokens: 100, outputTokens: 20, estimated: false };
+
+    it('accumulates per month, provider and model', () => {
+        let ledger: UsageLedger = {};
+        ledger = addUsage(ledger, 'openai', 'gpt-4o', usage, 0.5, '2026-01');
+        ledger = addUsage(ledger, 'openai', 'gpt-4o', { ...usage, estimated: true }, 0.25, '2026-01');
+        ledger = addUsage(ledger, 'openai', 'gpt-4o-mini', usage, 0.1, '2026-01');
+        ledger = addUsage(ledger, 'anthropic', 'claude-3-5-haiku', usage, 2, '2026-01');
+        ledger = addUsage(ledger, 'openai', 'gpt-4o', usage, 3, '2026-02');
+
+        expect(ledger['2026-01'].openai['gpt-4o']).toEqual({
+            requests: 2, estimatedRequests: 1, inputTokens: 200, outputTokens: 40, cost: 0.75
+        });
+        expect(monthlySpend(ledger, 'openai', '2026-01')).toBeCloseTo(0.85);
+        expect(monthlySpend(ledger, 'openai', '2026-02')).toBe(3);
+        expect(monthlySpend(ledger, 'gemini', '2026-01')).toBe(0);
+    });
+
+    it('formats month keys as YYYY-MM', () => {
+        expect(monthKey(new Date(2026, 2, 15))).toBe('2026-03');
+    });
+
+    describe('recordUsage()', () => {
+        let local: Record<string, unknown>;
+
+        beforeEach(() => {
+            local = {};
+            vi.stubGlobal('chrome', {
+                storage: {
+                    local: {
+                        get: async (key: string) => (key in local ? { [key]: local[key] } : {}),
+                        set: async (items: Record<string, unknown>) => { Object.assign(local, items); }
+                    }
+                }
+            });
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it('does not lose concurrent writes', async () => {
+            await Promise.all([1, 2, 3].map(() => recordUsage('openai', 'gpt-4o', usage, 1)));
+            const ledger = local.usage_ledger as UsageLedger;
+            expect(ledger[monthKey()].openai['gpt-4o'].requests).toBe(3);
+        });
+    });
+
+    describe('reportUsage()', () => {
+        let local: Record<string, unknown>;
+
+        beforeEach(() => {
+            local = {};
+            type Listener = (message: unknown, sender: unknown, sendResponse: (response: unknown) => void) => boolean | undefined;
+            const listeners: Listener[] = [];
+            vi.stubGlobal('chrome', {
+                runtime: {
+                    onMessage: { addListener: (listener: Listener) => listeners.push(listener) },
+                    // Round-trips through JSON like a real message, and resolves with the host's response
+                    sendMessage: (message: unknown) => new Promise(resolve => {
+                        for (const listener of listeners) listener(JSON.parse(JSON.stringify(message)), {}, resolve);
+                    })
+                },
+                storage: {
+                    local: {
+                        get: async (key: string) => (key in local ? { [key]: local[key] } : {}),
+                        set: async (items: Record<string, unknown>) => { Object.assign(local, items); },
+                        remove: async (key: string) => { delete local[key]; }
+                    }
+                }
+            });
+            hostUsageLedger();
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it('records through the host alongside its own writes', async () => {
+            await Promise.all([
+                reportUsage('openai', 'gpt-4o', usage, 1),
+                recordUsage('openai', 'gpt-4o', usage, 1),
+                reportUsage('openai', 'gpt-4o', usage, 1)
+            ]);
+            const ledger = local.usage_ledger as UsageLedger;
+            expect(ledger[monthKey()].openai['gpt-4o'].requests).toBe(3);
+        });
+
+        it('clears the ledger through the host', async () => {
+            await reportUsage('openai', 'gpt-4o', usage, 1);
+            await clearUsageLedger();
+            expect(local.usage_ledger).toBeUndefined();
+        });
+    });
+});
+
+describe('checkSpendingCap()', () => {
+    const ledger = addUsage({}, 'openai', 'gpt-4o', { inputTokens: 1, outputTokens: 1, estimated: false }, 5, '2026-01');
+
+    it('passes without a cap or under it', () => {
+        expect(checkSpendingCap(ledger, 'openai', undefined, '2026-01').status).toBe('ok');
+        expect(checkSpendingCap(ledger, 'openai', { limit: 0, mode: 'block' }, '2026-01').status).toBe('ok');
+        expect(checkSpendingCap(ledger, 'openai', { limit: 10, mode: 'block' }, '2026-01').status).toBe('ok');
+    });
+
+    it('applies the cap mode once the limit is reached', () => {
+        expect(checkSpendingCap(ledger, 'openai', { limit: 5, mode: 'warn' }, '2026-01')).toEqual({ status: 'warn', spent: 5, limit: 5 });
+        expect(checkSpendingCap(ledger, 'openai', { limit: 4, mode: 'block' }, '2026-01').status).toBe('block');
+    });
+
+    it('starts over each month', () => {
+        expect(checkSpendingCap(ledger, 'openai', { limit: 4, mode: 'block' }, '2026-02').status).toBe('ok');
+    });
+});
+
+describe('meteredService()', () => {
+    it('passes through reported usage', async () => {
+        const onUsage = vi.fn();
+        const service = meteredService(fakeService(['Hello', ' world'], { inputTokens: 50, outputTokens: 2 }), onUsage);
+        expect(await collect(service.summarize('article', options))).toBe('Hello world');
+        expect(onUsage).toHaveBeenCalledOnce();
+        expect(onUsage).toHaveBeenCalledWith({ inputTokens: 50, outputTokens: 2, estimated: false });
+    });
+
+    it('estimates usage when the provider reports none', async () => {
+        const onUsage = vi.fn();
+        const service = meteredService(fakeService(['x'.repeat(400)]), onUsage);
+        await collect(service.chat([{ role: 'user', content: 'y'.repeat(4000) }], { apiKey: 'k', model: 'm' }));
+        const [usage] = onUsage.mock.calls[0];
+        expect(usage.estimated).toBe(true);
+        expect(usage.inputTokens).toBeGreaterThan(usage.outputTokens);
+        expect(usage.outputTokens).toBeGreaterThan(0);
+    });
+
+    it('reports usage of a stream stopped early', async () => {
+        const onUsage = vi.fn();
+        const service = meteredService(fakeService(['a', 'b', 'c']), onUsage);
+        for await (const chunk of service.summarize('article', options)) {
+            if (chunk === 'a') break;
+        }
+        expect(onUsage).toHaveBeenCalledOnce();
+    });
+});
@@ -0,0 +1,224 @@
+import { type ChatMessage, type ChatOptions, type LLMService, type SummaryOptions, type TokenUsage, constructPrompt } from './llm';
+import { estimateTokens } from './chunking';
+
+/** US dollars per million tokens. */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * List prices, matched by longest model-name prefix. Users can override or extend them in settings.
+ */
+export const DEFAULT_PRICING: Record<string, ModelPrice> = {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o1': { input: 15, output: 60 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'o3': { input: 2, output: 8 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-opus-4': { input: 15, output: 75 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-nano': { input: 0, output: 0 }
+};
+
+export function findPrice(model: string, pricing: Record<string, ModelPrice>): ModelPrice | null {
+    const match = Object.keys(pricing)
+        .filter(prefix => model.startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? pricing[match] : null;
+}
+
+export function computeCost(usage: TokenUsage, price: ModelPrice | null): number {
+    if (!price) return 0;
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export interface MeteredUsage extends TokenUsage {
+    /** True when the provider reported nothing and the counts are estimated from text length. */
+    estimated: boolean;
+}
+
+/**
+ * Wraps a service so every `summarize` and `chat` call reports its usage, estimating it when the
+ * provider doesn't (Chrome AI, servers that ignore `include_usage`). Aborted calls report what was
+ * generated up to that point, since it was billed.
+ */
+export function meteredService(service: LLMService, onUsage: (usage: MeteredUsage) => void): LLMService {
+    async function* metered<O extends ChatOptions | SummaryOptions>(
+        call: (options: O) => AsyncGenerator<string, void, unknown>,
+        options: O,
+        input: string
+    ): AsyncGenerator<string, void, unknown> {
+        let reported: TokenUsage | null = null;
+        let output = '';
+        try {
+            for await (const chunk of call({ ...options, onUsage: (usage: TokenUsage) => { reported = usage; } })) {
+                output += chunk;
+                yield chunk;
+            }
+        } finally {
+            if (reported) onUsage({ ...(reported as TokenUsage), estimated: false });
+            else if (output) onUsage({ inputTokens: estimateTokens(input), outputTokens: estimateTokens(output), estimated: true });
+        }
+    }
+
+    return {
+        name: service.name,
+        validateKey: key => service.validateKey(key),
+        getModels: apiKey => service.getModels(apiKey),
+        getContextWindow: model => service.getContextWindow(model),
+        summarize: (text, options) => metered(o => service.summarize(text, o), options, constructPrompt(options, text)),
+        chat: (messages: ChatMessage[], options) => metered(
+            o => service.chat(messages, o),
+            options,
+            [options.system || '', ...messages.map(m => m.content)].join('\n')
+        )
+    };
+}
+
+// --- Ledger ---
+
+export interface UsageTotals {
+    requests: number;
+    /** How many of the requests had estimated rather than reported counts. */
+    estimatedRequests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+}
+
+/** Month (`YYYY-MM`) → provider → model → totals. */
+export type UsageLedger = Record<string, Record<string, Record<string, UsageTotals>>>;
+
+const LEDGER_KEY = 'usage_ledger';
+
+export function monthKey(date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function addUsage(ledger: UsageLedger, provider: string, model: string, usage: MeteredUsage, cost: number, month = monthKey()): UsageLedger {
+    const current = ledger[month]?.[provider]?.[model] || { requests: 0, estimatedRequests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    const updated: UsageTotals = {
+        requests: current.requests + 1,
+        estimatedRequests: current.estimatedRequests + (usage.estimated ? 1 : 0),
+        inputTokens: current.inputTokens + usage.inputTokens,
+        outputTokens: current.outputTokens + usage.outputTokens,
+        cost: current.cost + cost
+    };
+    return {
+        ...ledger,
+        [month]: { ...ledger[month], [provider]: { ...ledger[month]?.[provider], [model]: updated } }
+    };
+}
+
+// Writes are chained so back-to-back requests (chunked summaries) don't overwrite each other. That
+// only holds within one context, so the background worker is the ledger's only writer: the worker's
+// jobs call recordUsage directly and every panel goes through reportUsage.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function queueWrite(write: () => Promise<void>): Promise<void> {
+    pendingWrite = pendingWrite.catch(() => undefined).then(write);
+    return pendingWrite;
+}
+
+export function recordUsage(provider: string, model: string, usage: MeteredUsage, cost: number): Promise<void> {
+    return queueWrite(async () => {
+        const result = await chrome.storage.local.get(LEDGER_KEY);
+        const ledger = (result[LEDGER_KEY] as UsageLedger) || {};
+        await chrome.storage.local.set({ [LEDGER_KEY]: addUsage(ledger, provider, model, usage, cost) });
+    });
+}
+
+type LedgerMessage =
+    | { type: 'RECORD_USAGE'; provider: string; model: string; usage: MeteredUsage; cost: number }
+    | { type: 'CLEAR_USAGE' };
+
+async function sendToLedger(message: LedgerMessage): Promise<void> {
+    const response = await chrome.runtime.sendMessage(message) as { error?: string } | undefined;
+    if (response?.error) throw new Error(response.error);
+}
+
+/** Records usage from the side panel by handing it to the background worker. */
+export function reportUsage(provider: string, model: string, usage: MeteredUsage, cost: number): Promise<void> {
+    return sendToLedger({ type: 'RECORD_USAGE', provider, model, usage, cost });
+}
+
+export function clearUsageLedger(): Promise<void> {
+    return sendToLedger({ type: 'CLEAR_USAGE' });
+}
+
+/**
+ * Makes this context the ledger's writer. Called once from the background service worker.
+ */
+export function hostUsageLedger(): void {
+    chrome.runtime.onMessage.addListener((message: LedgerMessage, _sender, sendResponse) => {
+        let write: Promise<void>;
+        if (message?.type === 'RECORD_USAGE') {
+            write = recordUsage(message.provider, message.model, message.usage, message.cost);
+        } else if (message?.type === 'CLEAR_USAGE') {
+            write = queueWrite(() => chrome.storage.local.remove(LEDGER_KEY));
+        } else {
+            return;
+        }
+        write.then(() => sendResponse({}), e => sendResponse({ error: e instanceof Error ? e.message : String(e) }));
+        // Keeps the channel open for the asynchronous response
+        return true;
+    });
+}
+
+export function sumTotals(totals: UsageTotals[]): UsageTotals {
+    return totals.reduce((sum, t) => ({
+        requests: sum.requests + t.requests,
+        estimatedRequests: sum.estimatedRequests + t.estimatedRequests,
+        inputTokens: sum.inputTokens + t.inputTokens,
+        outputTokens: sum.outputTokens + t.outputTokens,
+        cost: sum.cost + t.cost
+    }), { requests: 0, estimatedRequests: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+}
+
+export function monthlySpend(ledger: UsageLedger, provider: string, month = monthKey()): number {
+    return sumTotals(Object.values(ledger[month]?.[provider] || {})).cost;
+}
+
+// --- Caps ---
+
+export interface SpendingCap {
+    /** Monthly limit in US dollars; 0 disables the cap. */
+    limit: number;
+    mode: 'warn' | 'block';
+}
+
+export interface CapCheck {
+    status: 'ok' | 'warn' | 'block';
+    spent: number;
+    limit: number;
+}
+
+/**
+ * Whether a new request may run given this month's spend with the provider.
+ */
+export function checkSpendingCap(ledger: UsageLedger, provider: string, cap: SpendingCap | undefined, month = monthKey()): CapCheck {
+    const spent = monthlySpend(ledger, provider, month);
+    if (!cap?.limit || spent < cap.limit) return { status: 'ok', spent, limit: cap?.limit || 0 };
+    return { status: cap.mode, spent, limit: cap.limit };
+}
+
+export function formatCost(cost: number): string {
+    if (cost === 0) return '$0';
+    if (cost < 0.01) return `$${cost.toFixed(4)}`;
+    return `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    extractPlayerResponse, fetchVideoTranscript, formatTimestamp, getYouTubeVideoId, linkTimestamps, parseJson3Transcript,
+    parseTimestamp, pickCaptionTrack, transcriptToText, type CaptionTrack
+} from './youtube';
+import { jsonResponse, mockFetch } from '@/test/streams';
+
+const player = {
+    videoDetails: { videoId: 'abc123', title: 'Bread {for} "beginners"', author: 'Bake School' },
+    captions: {
+        playerCaptionsTracklistRenderer: {
+            captionTracks: [
+                { baseUrl: '/api/timedtext?v=abc123&lang=en&kind=asr', languageCode: 'en', kind: 'asr' },
+                { baseUrl: '/api/timedtext?v=abc123&lang=fr', languageCode: 'fr' }
+            ]
+        }
+    }
+};
+
+const watchPage = `<html><script>var ytInitialPlayerResponse = ${JSON.stringify(player)};var meta = {"a": "}"};</script></html>`;
+
+const json3 = {
+    events: [
+        { tStartMs: 0, segs: [{ utf8: 'Hello' }, { utf8: ' and\nwelcome' }] },
+        { tStartMs: 1500 },
+        { tStartMs: 12_000, segs: [{ utf8: 'Flour first.' }] },
+        { tStartMs: 45_000, segs: [{ utf8: 'Now the water.' }] }
+    ]
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('getYouTubeVideoId()', () => {
+    it.each([
+        ['https://www.youtube.com/watch?v=abc123&t=30s', 'abc123'],
+        ['https://m.youtube.com/watch?v=abc123', 'abc123'],
+        ['https://youtu.be/abc123?si=x', 'abc123'],
+        ['https://www.youtube.com/shorts/abc-123', 'abc-123'],
+        ['https://www.youtube.com/@channel', null],
+        ['https://example.com/watch?v=abc123', null],
+        ['not a url', null],
+    ])('%s', (url, id) => {
+        expect(getYouTubeVideoId(url)).toBe(id);
+    });
+});
+
+describe('extractPlayerResponse()', () => {
+    it('reads the object even with braces inside strings and script after it', () => {
+        expect(extractPlayerResponse(watchPage)).toEqual(player);
+    });
+
+    it('returns null without a player response', () => {
+        expect(extractPlayerResponse('<html></html>')).toBeNull();
+        expect(extractPlayerResponse('ytInitialPlayerResponse = {"cut": ')).toBeNull();
+    });
+});
+
+describe('pickCaptionTrack()', () => {
+    const tracks: CaptionTrack[] = player.captions.playerCaptionsTracklistRenderer.captionTracks;
+
+    it('prefers manual captions in the reader language, then any in that language, then manual ones', () => {
+        expect(pickCaptionTrack(tracks, 'fr-FR')?.languageCode).toBe('fr');
+        expect(pickCaptionTrack(tracks, 'en-US')?.kind).toBe('asr');
+        expect(pickCaptionTrack(tracks, 'de')?.languageCode).toBe('fr');
+        expect(pickCaptionTrack([], 'en')).toBeNull();
+    });
+});
+
+describe('transcripts', () => {
+    it('parses json3 events and drops empty ones', () => {
+        expect(parseJson3Transcript(json3)).toEqual([
+            { startMs: 0, text: 'Hello and welcome' },
+            { startMs: 12_000, text: 'Flour first.' },
+            { startMs: 45_000, text: 'Now the water.' }
+        ]);
+    });
+
+    it('groups lines into timestamped paragraphs', () => {
+        expect(transcriptToText(parseJson3Transcript(json3))).toBe('[0:00] Hello and welcome Flour first.\n\n[0:45] Now the water.');
+    });
+
+    it('formats and parses timestamps', () => {
+        expect(formatTimestamp(65_000)).toBe('1:05');
+        expect(formatTimestamp(3_725_000)).toBe('1:02:05');
+        expect(parseTimestamp('1:05')).toBe(65);
+        expect(parseTimestamp('1:02:05')).toBe(3725);
+        expect(parseTimestamp('1:75')).toBeNull();
+        expect(parseTimestamp('12')).toBeNull();
+    });
+});
+
+describe('linkTimestamps()', () => {
+    it('links bare timestamps and leaves existing links alone', () => {
+        expect(linkTimestamps('- [4:05] Setup\n- [1:02:03] End\n[1:00](https://x.dev)'))
+            .toBe('- [4:05](#t=245) Setup\n- [1:02:03](#t=3723) End\n[1:00](https://x.dev)');
+    });
+});
+
+describe('fetchVideoTranscript()', () => {
+    it('loads the watch page, then the chosen caption track as json3', async () => {
+        const fetchMock = mockFetch(url => url.includes('/watch')
+            ? new Response(watchPage)
+            : jsonResponse(json3));
+        const video = await fetchVideoTranscript('abc123', 'fr');
+
+        expect(video).toMatchObject({ videoId: 'abc123', title: 'Bread {for} "beginners"', channel: 'Bake School' });
+        expect(video.segments).toHaveLength(3);
+        const captionUrl = new URL(String(fetchMock.mock.calls[1][0]));
+        expect(captionUrl.searchParams.get('lang')).toBe('fr');
+        expect(captionUrl.searchParams.get('fmt')).toBe('json3');
+    });
+
+    it('fails clearly for videos without captions', async () => {
+        mockFetch(() => new Response(`<script>ytInitialPlayerResponse = ${JSON.stringify({ videoDetails: player.videoDetails })};</script>`));
+        await expect(fetchVideoTranscript('abc123', 'en')).rejects.toThrow(/no captions/);
+    });
+});
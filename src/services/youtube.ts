@@ -0,0 +1,180 @@
+/**
+ * YouTube videos have no article for Readability, so the content script summarizes their
+ * transcript instead, taken from the caption tracks listed in the watch page's player response.
+ */
+
+export interface CaptionTrack {
+    baseUrl: string;
+    languageCode: string;
+    /** `asr` for auto-generated captions. */
+    kind?: string;
+    name?: { simpleText?: string; runs?: { text: string }[] };
+}
+
+// The parts of `ytInitialPlayerResponse` we read
+interface PlayerResponse {
+    videoDetails?: { videoId?: string; title?: string; author?: string; lengthSeconds?: string };
+    captions?: { playerCaptionsTracklistRenderer?: { captionTracks?: CaptionTrack[] } };
+}
+
+export interface TranscriptSegment {
+    startMs: number;
+    text: string;
+}
+
+export interface VideoTranscript {
+    videoId: string;
+    title: string;
+    channel: string;
+    segments: TranscriptSegment[];
+}
+
+export function getYouTubeVideoId(url: string): string | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return null;
+    }
+    const host = parsed.hostname.replace(/^(www|m|music)\./, '');
+    if (host === 'youtu.be') return parsed.pathname.slice(1).split('/')[0] || null;
+    if (host !== 'youtube.com') return null;
+    if (parsed.pathname === '/watch') return parsed.searchParams.get('v');
+    const match = parsed.pathname.match(/^\/(shorts|live|embed)\/([\w-]+)/);
+    return match ? match[2] : null;
+}
+
+export const isYouTubeVideo = (url: string) => getYouTubeVideoId(url) !== null;
+
+/**
+ * Finds the JSON object assigned to `ytInitialPlayerResponse` in the watch page HTML. The object
+ * is followed by more script, so its end is found by matching braces outside of strings.
+ */
+export function extractPlayerResponse(html: string): PlayerResponse | null {
+    const marker = html.indexOf('ytInitialPlayerResponse');
+    if (marker === -1) return null;
+    const start = html.indexOf('{', marker);
+    if (start === -1) return null;
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < html.length; i++) {
+        const char = html[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            try {
+                return JSON.parse(html.slice(start, i + 1));
+            } catch {
+                return null;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Prefers captions written by people over auto-generated ones, and the reader's language over others.
+ */
+export function pickCaptionTrack(tracks: CaptionTrack[], language: string): CaptionTrack | null {
+    const lang = language.toLowerCase().split('-')[0];
+    const inLanguage = (t: CaptionTrack) => t.languageCode.toLowerCase().split('-')[0] === lang;
+    const manual = tracks.filter(t => t.kind !== 'asr');
+    return manual.find(inLanguage) || tracks.find(inLanguage) || manual[0] || tracks[0] || null;
+}
+
+// The `fmt=json3` timed text format
+interface Json3Transcript {
+    events?: { tStartMs?: number; segs?: { utf8?: string }[] }[];
+}
+
+export function parseJson3Transcript(data: Json3Transcript): TranscriptSegment[] {
+    return (data.events || [])
+        .map(event => ({
+            startMs: event.tStartMs || 0,
+            text: (event.segs || []).map(s => s.utf8 || '').join('').replace(/\s+/g, ' ').trim()
+        }))
+        .filter(segment => segment.text);
+}
+
+export function formatTimestamp(ms: number): string {
+    const total = Math.floor(ms / 1000);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = String(total % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export function parseTimestamp(timestamp: string): number | null {
+    const parts = timestamp.split(':').map(Number);
+    if (parts.length < 2 || parts.length > 3 || parts.some(p => !Number.isInteger(p) || p < 0) || parts.slice(1).some(p => p >= 60)) return null;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * The transcript as text for the model: caption lines merged into paragraphs of about
+ * `windowMs`, each starting with its `[m:ss]` timestamp.
+ */
+export function transcriptToText(segments: TranscriptSegment[], windowMs = 30_000): string {
+    const paragraphs: string[] = [];
+    let current: { startMs: number; lines: string[] } | null = null;
+    for (const segment of segments) {
+        if (!current || segment.startMs - current.startMs >= windowMs) {
+            if (current) paragraphs.push(`[${formatTimestamp(current.startMs)}] ${current.lines.join(' ')}`);
+            current = { startMs: segment.startMs, lines: [] };
+        }
+        current.lines.push(segment.text);
+    }
+    if (current) paragraphs.push(`[${formatTimestamp(current.startMs)}] ${current.lines.join(' ')}`);
+    return paragraphs.join('\n\n');
+}
+
+/**
+ * Fetches the transcript of a video. Runs in the content script on youtube.com, so the requests
+ * are same-origin. The watch page is fetched again rather than read from the DOM because
+ * YouTube navigates between videos without reloading, leaving a stale player response in the page.
+ */
+export async function fetchVideoTranscript(videoId: string, language: string): Promise<VideoTranscript> {
+    const res = await fetch(`https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`, { credentials: 'include' });
+    if (!res.ok) throw new Error(`Could not load the video page (${res.status})`);
+    const player = extractPlayerResponse(await res.text());
+    if (!player) throw new Error('Could not read the video details');
+
+    const tracks = player.captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+    const track = pickCaptionTrack(tracks, language);
+    if (!track) throw new Error('This video has no captions to summarize');
+
+    const url = new URL(track.baseUrl, 'https://www.youtube.com');
+    url.searchParams.set('fmt', 'json3');
+    const captions = await fetch(url.toString(), { credentials: 'include' });
+    const text = captions.ok ? await captions.text() : '';
+    const segments = text ? parseJson3Transcript(JSON.parse(text)) : [];
+    if (segments.length === 0) throw new Error('The transcript of this video is empty');
+
+    return {
+        videoId,
+        title: player.videoDetails?.title || '',
+        channel: player.videoDetails?.author || '',
+        segments
+    };
+}
+
+/** Added to the prompt for videos, so the summary links back into the video. */
+export const VIDEO_INSTRUCTIONS = `The text is the transcript of a YouTube video; paragraphs start with [m:ss] timestamps.
+After the summary, add a "## Chapters" section: a list of the main parts of the video, each line starting with the timestamp where it begins, e.g. "- [4:05] Setting up the project".`;
+
+/**
+ * Turns `[m:ss]` timestamps in a summary into `#t=<seconds>` links the side panel handles.
+ * Existing Markdown links are left alone.
+ */
+export function linkTimestamps(markdown: string): string {
+    return markdown.replace(/\[(\d{1,2}(?::\d{2}){1,2})\](?!\()/g, (match, timestamp: string) => {
+        const seconds = parseTimestamp(timestamp);
+        return seconds === null ? match : `[${timestamp}](#t=${seconds})`;
+    });
+}
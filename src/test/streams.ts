@@ -0,0 +1,63 @@
+import { vi } from 'vitest';
+
+/**
+ * Small deterministic PRNG (mulberry32) so random chunk boundaries are reproducible per seed.
+ */
+export function seededRandom(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Encodes the text and cuts it at random byte offsets, so chunks can end
+ * in the middle of a UTF-8 character, a line ending or a JSON object.
+ */
+export function randomChunks(text: string, random: () => number, maxChunk = 64): Uint8Array[] {
+    const bytes = new TextEncoder().encode(text);
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+    while (offset < bytes.length) {
+        const size = 1 + Math.floor(random() * maxChunk);
+        chunks.push(bytes.slice(offset, offset + size));
+        offset += size;
+    }
+    return chunks;
+}
+
+/**
+ * A streaming Response that delivers the given chunks one by one.
+ */
+export function streamResponse(chunks: Uint8Array[], init: ResponseInit = {}): Response {
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk);
+            controller.close();
+        }
+    });
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' }, ...init });
+}
+
+export function jsonResponse(data: unknown, status = 200): Response {
+    return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Replaces the global fetch for the current test. The handler sees the URL and request init.
+ */
+export function mockFetch(handler: (url: string, init?: RequestInit) => Response | Promise<Response>) {
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => handler(String(input), init));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+}
+
+export async function collect(stream: AsyncIterable<string>): Promise<string> {
+    let result = '';
+    for await (const chunk of stream) result += chunk;
+    return result;
+}